@@ -11,6 +11,8 @@ const gitignorePath = fileURLToPath(new URL('./.gitignore', import.meta.url));
 
 export default ts.config(
     includeIgnoreFile(gitignorePath),
+    // Vendored verbatim from the streamsaver package
+    { ignores: ['static/streamsaver/'] },
     js.configs.recommended,
     ...ts.configs.recommended,
     ...svelte.configs.recommended,
@@ -0,0 +1,41 @@
+import { execFile } from 'node:child_process';
+import { mkdtemp, rm } from 'node:fs/promises';
+import { join } from 'node:path';
+import { promisify } from 'node:util';
+import { fileURLToPath } from 'node:url';
+import { build } from 'vite';
+import { afterAll, beforeAll, describe, expect, it } from 'vitest';
+
+const run = promisify(execFile);
+const root = fileURLToPath(new URL('../..', import.meta.url));
+
+// Smoke test of the built `cape` script: the bundle loads its unbundled
+// dependencies through Node's own module loader, unlike the other tests
+describe('cape', () => {
+    let outDir: string;
+
+    beforeAll(async () => {
+        // Inside the repo, so the script finds its dependencies in node_modules
+        outDir = await mkdtemp(join(root, 'node_modules', '.cape-cli-'));
+        await build({
+            root,
+            configFile: join(root, 'vite.cli.config.ts'),
+            logLevel: 'silent',
+            build: { outDir }
+        });
+    }, 120_000);
+
+    afterAll(async () => {
+        await rm(outDir, { recursive: true, force: true });
+    });
+
+    it('prints the usage for --help', async () => {
+        const { stdout, stderr } = await run(
+            process.execPath,
+            [join(outDir, 'cape.js'), '--help'],
+            { cwd: root }
+        );
+
+        expect(stdout + stderr).toContain('Usage: cape <command> [options]');
+    });
+});
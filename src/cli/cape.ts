@@ -0,0 +1,5 @@
+#!/usr/bin/env node
+import { main } from './main';
+import { consoleOutput } from './output';
+
+process.exitCode = await main(process.argv.slice(2), process.env, consoleOutput);
@@ -0,0 +1,7 @@
+import type { UserManager } from 'oidc-client-ts';
+
+/**
+ * `$lib/cognito` for the CLI build. The CLI has no browser sign-in: its token
+ * comes from `CAPE_TOKEN`, so there is no user manager to renew it with.
+ */
+export const userManager: UserManager | undefined = undefined;
@@ -0,0 +1,65 @@
+import { describe, it, expect, vi } from 'vitest';
+
+vi.mock('$lib/pipeline', async (importOriginal) => ({
+    ...(await importOriginal<typeof import('$lib/pipeline')>()),
+    getWorkflows: vi.fn()
+}));
+
+import { capi } from '$lib/apiClient';
+import { getWorkflows } from '$lib/pipeline';
+import { main } from './main';
+import type { WorkflowDAG } from '$lib/pipeline';
+
+const env = { CAPE_API_BASE: 'https://api.example.test/', CAPE_TOKEN: 'token-1' };
+
+function createOutput() {
+    return { result: vi.fn(), info: vi.fn() };
+}
+
+describe('main', () => {
+    it('prints the usage for --help', async () => {
+        const output = createOutput();
+
+        expect(await main(['--help'], {}, output)).toBe(0);
+        expect(output.info).toHaveBeenCalledWith(expect.stringContaining('Usage: cape'));
+        expect(output.result).not.toHaveBeenCalled();
+    });
+
+    it.each([
+        [[], {}],
+        [['deploy'], env],
+        [['workflows', '--verbose'], env],
+        [['workflows'], { CAPE_API_BASE: env.CAPE_API_BASE }],
+        [['upload', 'sample-dir'], { ...env, CAPE_BUCKET: 'bucket' }],
+        [['upload', 'sample-dir', '--meta', 'meta.json'], env],
+        [['status', 'dag-1'], env],
+        [['status', 'dag-1', 'run-1', '--interval', '0'], env]
+    ])('exits with 2 on the usage error in %j', async (args, environment) => {
+        expect(await main(args, environment, createOutput())).toBe(2);
+    });
+
+    it('lists the workflows with the token on the API calls', async () => {
+        vi.mocked(getWorkflows).mockResolvedValue([
+            { dag_id: 'dag-1', dag_display_name: 'Assembly', is_paused: false },
+            { dag_id: 'dag-2', dag_display_name: 'Typing', is_paused: true }
+        ] as WorkflowDAG[]);
+        const output = createOutput();
+
+        expect(await main(['workflows'], env, output)).toBe(0);
+
+        expect(getWorkflows).toHaveBeenCalledWith('https://api.example.test');
+        expect(capi.defaults.headers.common.Authorization).toBe('Bearer token-1');
+        expect(output.result.mock.calls.map(([line]) => line)).toEqual([
+            'dag-1\tAssembly',
+            'dag-2\tTyping\t(paused)'
+        ]);
+    });
+
+    it('exits with 1 when a command fails', async () => {
+        vi.mocked(getWorkflows).mockRejectedValue(new Error('connect ECONNREFUSED'));
+        const output = createOutput();
+
+        expect(await main(['workflows'], env, output)).toBe(1);
+        expect(output.info).toHaveBeenCalledWith('Error: connect ECONNREFUSED');
+    });
+});
@@ -0,0 +1,214 @@
+import { parseArgs } from 'node:util';
+import { capi } from '$lib/apiClient';
+import { getWorkflows } from '$lib/pipeline';
+import { UPLOAD_PROFILES } from '$lib/uploadProfiles';
+import { getWorkflowRun } from '$lib/workflowStatus';
+import { uploadSample } from './upload';
+import { triggerRun, waitForRun } from './workflow';
+import type { TriggeredRun } from '$lib/pipeline';
+import type { CliOutput } from './output';
+
+/**
+ * The `cape` command line: uploads sample directories and runs workflows from
+ * machines without a browser, e.g. the Linux hosts of sequencing instruments.
+ * It drives the same library code as the web app.
+ */
+
+export const USAGE = `Usage: cape <command> [options]
+
+Commands:
+  upload <dir> --meta <file>    Pack the sample files in <dir> with the metadata
+                                JSON in <file> and upload them
+      --bucket <bucket>         The destination bucket (default: $CAPE_BUCKET)
+      --type <type>             The data type: ${UPLOAD_PROFILES.map((p) => p.id).join(', ')} (default: ${UPLOAD_PROFILES[0].id})
+      --overwrite               Replace a sample already stored under the same ID
+  trigger <dagId>               Trigger a run of a workflow
+      --params <file>           JSON options per stage ID, validated against the
+                                stage schemas (default: the schema defaults)
+      --wait                    Poll the run until it finishes
+  status <dagId> <dagRunId>     Print the state of a run
+      --wait                    Poll the run until it finishes
+  workflows                     List the workflows
+
+Options:
+  --interval <seconds>          How often --wait polls the run (default: 30)
+  -h, --help                    Show this help
+
+Environment:
+  CAPE_TOKEN                    The access token sent as the Bearer token (required)
+  CAPE_API_BASE                 The CAPE API base URL (required)
+  CAPE_BUCKET                   The default upload bucket
+
+Results (the uploaded S3 URI, the run ID, the final run state) are printed on
+stdout; progress and errors on stderr. The exit code is 0 on success, 1 on
+failure (including a run that did not succeed) and 2 on a usage error.`;
+
+const COMMANDS = ['upload', 'trigger', 'status', 'workflows'];
+const DEFAULT_POLL_INTERVAL_S = 30;
+
+/** A mistake in the command line, answered with the usage */
+class UsageError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'UsageError';
+    }
+}
+
+function requireEnv(env: NodeJS.ProcessEnv, name: string): string {
+    const value = env[name];
+    if (!value) {
+        throw new UsageError(`Missing environment variable ${name}`);
+    }
+    return value;
+}
+
+function getPollInterval(value: string | undefined): number {
+    const seconds = value === undefined ? DEFAULT_POLL_INTERVAL_S : Number(value);
+    if (!Number.isFinite(seconds) || seconds <= 0) {
+        throw new UsageError(`--interval must be a positive number of seconds, not ${value}`);
+    }
+    return seconds * 1000;
+}
+
+/**
+ * Wait for a run to finish and print its final state.
+ *
+ * @returns the exit code: 0 if the run succeeded
+ */
+async function waitAndReport(
+    baseUrl: string,
+    run: TriggeredRun,
+    intervalMs: number,
+    output: CliOutput
+): Promise<number> {
+    const finished = await waitForRun(baseUrl, run, { intervalMs }, output);
+    output.result(finished.state);
+    return finished.state === 'success' ? 0 : 1;
+}
+
+/**
+ * Run a `cape` command.
+ *
+ * @param args - the command line arguments, without `node` and the script
+ * @param env - the environment holding the token and API base URL
+ * @param output - where results and progress are printed
+ * @returns the exit code
+ */
+export async function main(
+    args: string[],
+    env: NodeJS.ProcessEnv,
+    output: CliOutput
+): Promise<number> {
+    try {
+        const { values, positionals } = parseArgs({
+            args,
+            allowPositionals: true,
+            options: {
+                meta: { type: 'string' },
+                bucket: { type: 'string' },
+                type: { type: 'string' },
+                overwrite: { type: 'boolean' },
+                params: { type: 'string' },
+                wait: { type: 'boolean' },
+                interval: { type: 'string' },
+                help: { type: 'boolean', short: 'h' }
+            }
+        });
+        const [command, ...operands] = positionals;
+
+        if (values.help || !command) {
+            output.info(USAGE);
+            return values.help ? 0 : 2;
+        }
+        if (!COMMANDS.includes(command)) {
+            throw new UsageError(`Unknown command ${command}`);
+        }
+
+        const baseUrl = requireEnv(env, 'CAPE_API_BASE').replace(/\/+$/, '');
+        // Sent on every CAPE API call; the presigned part URLs must not get it
+        capi.defaults.headers.common.Authorization = `Bearer ${requireEnv(env, 'CAPE_TOKEN')}`;
+        const pollIntervalMs = getPollInterval(values.interval);
+
+        switch (command) {
+            case 'upload': {
+                const [dir] = operands;
+                const bucket = values.bucket ?? env.CAPE_BUCKET;
+                const profile = UPLOAD_PROFILES.find(
+                    (p) => p.id === (values.type ?? UPLOAD_PROFILES[0].id)
+                );
+                if (!dir || !values.meta) {
+                    throw new UsageError('upload needs a sample directory and --meta');
+                }
+                if (!bucket) {
+                    throw new UsageError('upload needs --bucket or CAPE_BUCKET');
+                }
+                if (!profile) {
+                    throw new UsageError(`Unknown data type ${values.type}`);
+                }
+
+                const { key } = await uploadSample(
+                    {
+                        baseUrl,
+                        bucket,
+                        dir,
+                        metaPath: values.meta,
+                        profile,
+                        overwrite: values.overwrite
+                    },
+                    output
+                );
+                output.result(`s3://${bucket}/${key}`);
+                return 0;
+            }
+
+            case 'trigger': {
+                const [dagId] = operands;
+                if (!dagId) {
+                    throw new UsageError('trigger needs a workflow DAG ID');
+                }
+
+                const run = await triggerRun({ baseUrl, dagId, paramsPath: values.params }, output);
+                output.result(run.dagRunId);
+                return values.wait ? await waitAndReport(baseUrl, run, pollIntervalMs, output) : 0;
+            }
+
+            case 'status': {
+                const [dagId, dagRunId] = operands;
+                if (!dagId || !dagRunId) {
+                    throw new UsageError('status needs a workflow DAG ID and run ID');
+                }
+                if (values.wait) {
+                    return await waitAndReport(
+                        baseUrl,
+                        { dagId, dagRunId },
+                        pollIntervalMs,
+                        output
+                    );
+                }
+
+                output.result((await getWorkflowRun(baseUrl, dagId, dagRunId)).state);
+                return 0;
+            }
+
+            case 'workflows': {
+                for (const dag of await getWorkflows(baseUrl)) {
+                    output.result(
+                        `${dag.dag_id}\t${dag.dag_display_name}${dag.is_paused ? '\t(paused)' : ''}`
+                    );
+                }
+                return 0;
+            }
+        }
+        return 2;
+    } catch (err) {
+        const message = err instanceof Error ? err.message : String(err);
+        output.info(`Error: ${message}`);
+        // parseArgs rejects unknown options with ERR_PARSE_ARGS_* codes
+        const code = (err as { code?: unknown }).code;
+        if (err instanceof UsageError || String(code).startsWith('ERR_PARSE_ARGS')) {
+            output.info('Run cape --help for usage.');
+            return 2;
+        }
+        return 1;
+    }
+}
@@ -0,0 +1,15 @@
+/**
+ * Where the CLI writes. Results go to stdout so scripts can capture them;
+ * progress, warnings and errors go to stderr.
+ */
+export interface CliOutput {
+    /** A result for scripts to read, e.g. an S3 URI or a run ID */
+    result: (line: string) => void;
+    /** Progress and diagnostics for the person watching */
+    info: (line: string) => void;
+}
+
+export const consoleOutput: CliOutput = {
+    result: (line) => process.stdout.write(`${line}\n`),
+    info: (line) => process.stderr.write(`${line}\n`)
+};
@@ -0,0 +1,33 @@
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import { mkdir, mkdtemp, rm, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { UPLOAD_PROFILES } from '$lib/uploadProfiles';
+import { readSampleFiles } from './upload';
+
+const fastq = UPLOAD_PROFILES.find((profile) => profile.id === 'fastq')!;
+
+describe('readSampleFiles', () => {
+    let dir: string;
+
+    beforeAll(async () => {
+        dir = await mkdtemp(join(tmpdir(), 'cape-sample-'));
+        await writeFile(join(dir, 'S1_R2.fastq.gz'), 'reads 2');
+        await writeFile(join(dir, 'S1_R1.fastq.gz'), 'reads 1');
+        await writeFile(join(dir, 'notes.txt'), 'notes');
+        await mkdir(join(dir, 'qc.fastq'));
+    });
+
+    afterAll(async () => {
+        await rm(dir, { recursive: true, force: true });
+    });
+
+    it('reads the files of the data type sorted by name and skips the others', async () => {
+        const { files, skipped } = await readSampleFiles(dir, fastq);
+
+        expect(files.map((file) => file.name)).toEqual(['S1_R1.fastq.gz', 'S1_R2.fastq.gz']);
+        expect(await files[0].text()).toBe('reads 1');
+        expect(files[0].lastModified).toBeGreaterThan(0);
+        expect(skipped).toEqual(['notes.txt']);
+    });
+});
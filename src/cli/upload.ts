@@ -0,0 +1,241 @@
+import { openAsBlob } from 'node:fs';
+import { readdir, readFile, stat } from 'node:fs/promises';
+import { join } from 'node:path';
+import { getPartSize, multiPartUpload } from '$lib/mpu';
+import {
+    getSampleMetaErrors,
+    getSampleMetaSchema,
+    resolveSampleMetaForm,
+    toSampleMeta
+} from '$lib/sampleMeta';
+import { findKeyConflict } from '$lib/storage';
+import { chunkStream, tarPack, tarSize } from '$lib/stream';
+import {
+    createUploadProgress,
+    formatDuration,
+    getEta,
+    humanReadable,
+    recordPartStatus,
+    recordSentBytes
+} from '$lib/uploadProgress';
+import {
+    getCompanionErrors,
+    getFileNameWarnings,
+    getFileType,
+    getSampleKey,
+    inspectFile
+} from '$lib/uploadProfiles';
+import type { MultipartUploadResult } from '$lib/mpu';
+import type { SampleMeta } from '$lib/stream';
+import type { UploadProgress } from '$lib/uploadProgress';
+import type { UploadProfile } from '$lib/uploadProfiles';
+import type { CliOutput } from './output';
+
+export interface UploadSampleOptions {
+    baseUrl: string;
+    bucket: string;
+    /** The directory holding the sample's files */
+    dir: string;
+    /** The JSON file holding the sample metadata */
+    metaPath: string;
+    profile: UploadProfile;
+    /** Replace a sample already stored under the same key */
+    overwrite?: boolean;
+    /** How often progress is printed, in milliseconds */
+    progressIntervalMs?: number;
+}
+
+const DEFAULT_PROGRESS_INTERVAL_MS = 5000;
+
+/**
+ * Read the files of a sample directory that the upload profile accepts. Files
+ * are opened lazily, so even very large files are never held in memory.
+ *
+ * @param dir - the sample directory; subdirectories are ignored
+ * @param profile - the upload profile
+ * @returns the accepted files, sorted by name, and the names of the others
+ */
+export async function readSampleFiles(
+    dir: string,
+    profile: UploadProfile
+): Promise<{ files: File[]; skipped: string[] }> {
+    const entries = await readdir(dir, { withFileTypes: true });
+    const files: File[] = [];
+    const skipped: string[] = [];
+
+    for (const entry of entries.sort((a, b) => a.name.localeCompare(b.name))) {
+        if (!entry.isFile()) {
+            continue;
+        }
+        if (!getFileType(profile, entry.name)) {
+            skipped.push(entry.name);
+            continue;
+        }
+
+        const path = join(dir, entry.name);
+        const { mtimeMs } = await stat(path);
+        files.push(new File([await openAsBlob(path)], entry.name, { lastModified: mtimeMs }));
+    }
+
+    return { files, skipped };
+}
+
+/**
+ * Run the pre-flight checks of the upload form on the files of a sample.
+ *
+ * @returns the warnings to print
+ * @throws if any file has errors
+ */
+async function checkSampleFiles(profile: UploadProfile, files: File[]): Promise<string[]> {
+    const names = files.map((file) => file.name);
+    const companionErrors = getCompanionErrors(profile, names);
+    const nameWarnings = getFileNameWarnings(profile, names);
+    const errors: string[] = [];
+    const warnings: string[] = [];
+
+    for (const file of files) {
+        const inspection = await inspectFile(profile, file);
+        for (const message of [...inspection.errors, ...(companionErrors.get(file.name) ?? [])]) {
+            errors.push(`${file.name}: ${message}`);
+        }
+        for (const message of [...inspection.warnings, ...(nameWarnings.get(file.name) ?? [])]) {
+            warnings.push(`${file.name}: ${message}`);
+        }
+    }
+
+    if (errors.length > 0) {
+        throw new Error(`The sample files are not valid:\n  ${errors.join('\n  ')}`);
+    }
+    return warnings;
+}
+
+/**
+ * Read the sample metadata and validate it against the bucket's schema.
+ *
+ * @throws if the file is not JSON or the metadata is not valid
+ */
+async function readSampleMeta(baseUrl: string, bucket: string, metaPath: string) {
+    let values: unknown;
+    try {
+        values = JSON.parse(await readFile(metaPath, 'utf8'));
+    } catch (err) {
+        const message = err instanceof Error ? err.message : String(err);
+        throw new Error(`The metadata file ${metaPath} could not be read: ${message}`);
+    }
+    if (!values || typeof values !== 'object' || Array.isArray(values)) {
+        throw new Error(`The metadata file ${metaPath} must hold a JSON object`);
+    }
+
+    const form = await resolveSampleMetaForm(await getSampleMetaSchema(baseUrl, bucket));
+    const errors = Object.entries(getSampleMetaErrors(form, values as Record<string, unknown>));
+    if (errors.length > 0) {
+        const messages = errors.map(([field, message]) =>
+            field ? `${field} ${message}` : message
+        );
+        throw new Error(`The sample metadata is not valid:\n  ${messages.join('\n  ')}`);
+    }
+    return toSampleMeta(form, values as Record<string, unknown>);
+}
+
+/**
+ * Pack the files of a sample directory into a sample archive and upload it,
+ * as the upload form does: the metadata is validated against the bucket's
+ * schema, the files get the same pre-flight checks, and a stored sample is
+ * only replaced when asked to.
+ *
+ * @param options - the upload options
+ * @param output - where progress and results are printed
+ * @returns the uploaded sample and the upload result
+ */
+export async function uploadSample(
+    options: UploadSampleOptions,
+    output: CliOutput
+): Promise<{ meta: SampleMeta; key: string; result: MultipartUploadResult }> {
+    const { baseUrl, bucket, profile } = options;
+
+    const { files, skipped } = await readSampleFiles(options.dir, profile);
+    if (files.length === 0) {
+        throw new Error(`${options.dir} holds no ${profile.label} files`);
+    }
+    for (const name of skipped) {
+        output.info(`Skipping ${name}: not a ${profile.label} file`);
+    }
+    for (const warning of await checkSampleFiles(profile, files)) {
+        output.info(`Warning: ${warning}`);
+    }
+
+    const meta = await readSampleMeta(baseUrl, bucket, options.metaPath);
+    const key = getSampleKey(profile, meta.sampleId);
+
+    // A typo in the sample ID must not silently replace another sample
+    const conflict = await findKeyConflict({ baseUrl, bucket, key });
+    if (conflict && !options.overwrite) {
+        const reason = conflict.object
+            ? 'a sample is already stored there'
+            : 'an upload to it is in progress';
+        throw new Error(`${key} is taken (${reason}); pass --overwrite to replace it`);
+    }
+
+    const size = tarSize(meta, files, profile.archiveDir);
+    const partSize = getPartSize(size);
+    const progress = createUploadProgress(size, partSize, Date.now());
+    const filename = key.split('/').pop() ?? key;
+    const interval = options.progressIntervalMs ?? DEFAULT_PROGRESS_INTERVAL_MS;
+    let printedAt = 0;
+
+    output.info(`Uploading ${files.length} file(s) as ${filename} (${humanReadable(size)})`);
+    const result = await multiPartUpload(
+        chunkStream(tarPack(meta, files, profile.archiveDir), partSize),
+        size,
+        {
+            baseUrl,
+            bucket,
+            key,
+            partSize,
+            onProgress: (bytesSent, _totalBytes, ctx) => {
+                const now = Date.now();
+                recordSentBytes(progress, bytesSent, ctx, now);
+                if (now - printedAt >= interval) {
+                    printedAt = now;
+                    output.info(formatProgress(filename, progress));
+                }
+            },
+            onPartStatus: (status) => {
+                recordPartStatus(progress, status, Date.now());
+                if (status.state === 'retrying') {
+                    const wait = formatDuration((status.delayMs ?? 0) / 1000);
+                    output.info(
+                        `Part ${status.partNumber}: attempt ${status.attempt} failed ` +
+                            `(${status.reason}), retrying in ${wait}`
+                    );
+                }
+            }
+        }
+    );
+    if (!result) {
+        throw new Error(`The upload of ${filename} was aborted`);
+    }
+
+    output.info(
+        `Uploaded ${filename}` +
+            (result.checksumVerified
+                ? ' (checksum verified by storage)'
+                : ' (checksum not verified: storage reported none)') +
+            (progress.retries > 0 ? ` after ${progress.retries} retried part attempt(s)` : '')
+    );
+    return { meta, key, result };
+}
+
+/**
+ * A progress line, e.g. `sample-1.tar: 42% (1.2 GB / 2.9 GB) · 12 MB/s · 3 min left`
+ */
+function formatProgress(filename: string, progress: UploadProgress): string {
+    const { bytesSent, totalBytes } = progress;
+    const pct = totalBytes ? Math.floor((bytesSent / totalBytes) * 100) : 0;
+    const eta = getEta(progress);
+    return (
+        `${filename}: ${pct}% (${humanReadable(bytesSent)} / ${humanReadable(totalBytes)})` +
+        (progress.throughput > 0 ? ` · ${humanReadable(progress.throughput)}/s` : '') +
+        (eta !== undefined ? ` · ${formatDuration(eta)} left` : '')
+    );
+}
@@ -0,0 +1,136 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+
+vi.mock('$lib/workflowStatus', async (importOriginal) => ({
+    ...(await importOriginal<typeof import('$lib/workflowStatus')>()),
+    getWorkflowRun: vi.fn()
+}));
+
+import { getWorkflowRun } from '$lib/workflowStatus';
+import { buildPipelineConfigs, waitForRun } from './workflow';
+import type { PipelineProfile } from '$lib/pipeline';
+import type { WorkflowRun } from '$lib/workflowStatus';
+
+function buildProfile(pipelineId: string, parametersSchema: object): PipelineProfile {
+    return {
+        pipelineId,
+        pipelineName: pipelineId,
+        pipelineDescription: '',
+        project: '',
+        submission: { encoding: 'json', optionsFieldName: 'nextflowOptions' },
+        pipelineType: 'nextflow',
+        version: '1',
+        parametersSchema
+    };
+}
+
+const profile = buildProfile('stage-1', {
+    type: 'object',
+    properties: {
+        '--input': { type: 'string' },
+        '--depth': { type: 'integer', minimum: 1, default: 5 }
+    },
+    required: ['--input']
+});
+
+function createOutput() {
+    return { result: vi.fn(), info: vi.fn() };
+}
+
+describe('buildPipelineConfigs', () => {
+    it('fills options missing from the parameters with the schema defaults', async () => {
+        const configs = await buildPipelineConfigs([profile], {
+            'stage-1': { '--input': 's3://bucket/sample.tar' }
+        });
+
+        expect(configs).toEqual([
+            {
+                pipelineId: 'stage-1',
+                nextflowOptions: { '--input': 's3://bucket/sample.tar', '--depth': 5 }
+            }
+        ]);
+    });
+
+    it('lists every invalid option and unknown stage', async () => {
+        await expect(
+            buildPipelineConfigs([profile], {
+                'stage-1': { '--depth': 0 },
+                'stage-9': {}
+            })
+        ).rejects.toThrow(
+            /stage-9: the workflow has no such stage \(stage-1\)\n.*stage-1: --input is required\n.*stage-1: --depth must be >= 1/
+        );
+    });
+
+    it('validates the variant the options fit, again and again', async () => {
+        const variants = buildProfile('stage-2', {
+            $id: 'https://raw.githubusercontent.com/nf-core/test/master/nextflow_schema.json',
+            type: 'object',
+            oneOf: [
+                { required: ['--genome'], properties: { '--genome': { type: 'string' } } },
+                { required: ['--fasta'], properties: { '--fasta': { type: 'string' } } }
+            ]
+        });
+
+        const params = { 'stage-2': { '--fasta': 's3://refs/genome.fa' } };
+        const [config] = await buildPipelineConfigs([variants], params);
+
+        expect(config.nextflowOptions).toEqual({ '--fasta': 's3://refs/genome.fa' });
+        // Each run compiles its own copy of the narrowed schema
+        await expect(buildPipelineConfigs([variants], params)).resolves.toHaveLength(1);
+    });
+});
+
+describe('waitForRun', () => {
+    const run = { dagId: 'dag-1', dagRunId: 'run-1' };
+
+    beforeEach(() => {
+        vi.mocked(getWorkflowRun).mockReset();
+    });
+
+    function withState(state: string) {
+        return { dag_id: 'dag-1', dag_run_id: 'run-1', state } as WorkflowRun;
+    }
+
+    it('polls until the run finishes, printing each state change once', async () => {
+        vi.mocked(getWorkflowRun)
+            .mockResolvedValueOnce(withState('queued'))
+            .mockResolvedValueOnce(withState('running'))
+            .mockResolvedValueOnce(withState('running'))
+            .mockResolvedValueOnce(withState('failed'));
+        const sleep = vi.fn().mockResolvedValue(undefined);
+        const output = createOutput();
+
+        const finished = await waitForRun(
+            'https://api.example.test',
+            run,
+            { intervalMs: 1000, sleep },
+            output
+        );
+
+        expect(finished.state).toBe('failed');
+        expect(sleep).toHaveBeenCalledTimes(3);
+        expect(sleep).toHaveBeenCalledWith(1000);
+        expect(output.info.mock.calls.map(([line]) => line)).toEqual([
+            'run-1: queued',
+            'run-1: running',
+            'run-1: failed'
+        ]);
+    });
+
+    it('rides out failed polls but gives up after five in a row', async () => {
+        vi.mocked(getWorkflowRun)
+            .mockRejectedValueOnce(new Error('timeout'))
+            .mockResolvedValueOnce(withState('success'));
+        const sleep = vi.fn().mockResolvedValue(undefined);
+
+        await expect(
+            waitForRun('https://api.example.test', run, { intervalMs: 10, sleep }, createOutput())
+        ).resolves.toMatchObject({ state: 'success' });
+
+        vi.mocked(getWorkflowRun).mockRejectedValue(new Error('unreachable'));
+        await expect(
+            waitForRun('https://api.example.test', run, { intervalMs: 10, sleep }, createOutput())
+        ).rejects.toThrow('unreachable');
+        expect(getWorkflowRun).toHaveBeenCalledTimes(2 + 5);
+    });
+});
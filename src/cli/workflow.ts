@@ -0,0 +1,202 @@
+import { readFile } from 'node:fs/promises';
+import { getWorkflowProfiles, getWorkflows, triggerWorkflow } from '$lib/pipeline';
+import {
+    coerceOptionsForValidation,
+    compileSelected,
+    getDefaultOptions,
+    getFieldErrors,
+    getParameterForm,
+    getSelectedFields,
+    matchVariantSelection
+} from '$lib/schema';
+import { getWorkflowRun, isWorkflowRunFinished } from '$lib/workflowStatus';
+import type { PipelineConfig, PipelineProfile, TriggeredRun } from '$lib/pipeline';
+import type { WorkflowRun } from '$lib/workflowStatus';
+import type { CliOutput } from './output';
+
+/**
+ * The parameters file of a run: the options of each stage, keyed by the
+ * stage's pipeline ID (or name), e.g. `{ "stage-1": { "--input": "s3://…" } }`.
+ * Stages left out run with their defaults.
+ */
+export type WorkflowParameters = Record<string, Record<string, unknown>>;
+
+export interface TriggerRunOptions {
+    baseUrl: string;
+    dagId: string;
+    /** The JSON file holding the `WorkflowParameters` */
+    paramsPath?: string;
+}
+
+/** Consecutive failed polls after which waiting gives up */
+const MAX_POLL_FAILURES = 5;
+
+export interface WaitForRunOptions {
+    /** How often the run is polled, in milliseconds */
+    intervalMs: number;
+    /** Waits between polls; replaced in tests */
+    sleep?: (ms: number) => Promise<void>;
+}
+
+function getStageId(profile: PipelineProfile): string {
+    return profile.pipelineId ?? profile.pipelineName;
+}
+
+/**
+ * Build the stage configs of a run from a parameters file, validating every
+ * stage's options against its schema like the submission form does. Options
+ * missing from the file take the schema defaults. Of an `anyOf`/`oneOf`, the
+ * variant the file's options fit best is used.
+ *
+ * @param profiles - the stage profiles of the workflow
+ * @param params - the options of each stage
+ * @returns the stage configs, in stage order
+ * @throws listing every invalid option, or stages the workflow does not have
+ */
+export async function buildPipelineConfigs(
+    profiles: PipelineProfile[],
+    params: WorkflowParameters
+): Promise<PipelineConfig[]> {
+    const stageIds = profiles.map(getStageId);
+    const errors = Object.keys(params)
+        .filter((stageId) => !stageIds.includes(stageId))
+        .map((stageId) => `${stageId}: the workflow has no such stage (${stageIds.join(', ')})`);
+    const configs: PipelineConfig[] = [];
+
+    for (const profile of profiles) {
+        const stageId = getStageId(profile);
+        const form = await getParameterForm(profile.parametersSchema);
+        const selection = matchVariantSelection(form, params[stageId] ?? {});
+        const fields = getSelectedFields(form, selection);
+        const options = { ...getDefaultOptions(fields), ...params[stageId] };
+
+        let validator;
+        try {
+            validator = compileSelected(form, selection);
+        } catch (err) {
+            const message = err instanceof Error ? err.message : String(err);
+            errors.push(`${stageId}: the parameters schema cannot be compiled: ${message}`);
+            continue;
+        }
+        if (!validator(coerceOptionsForValidation(fields, options))) {
+            for (const [field, message] of Object.entries(getFieldErrors(validator.errors))) {
+                errors.push(`${stageId}: ${field ? `${field} ${message}` : message}`);
+            }
+        }
+
+        configs.push({ pipelineId: profile.pipelineId, nextflowOptions: options });
+    }
+
+    if (errors.length > 0) {
+        throw new Error(`The workflow parameters are not valid:\n  ${errors.join('\n  ')}`);
+    }
+    return configs;
+}
+
+async function readParameters(paramsPath: string | undefined): Promise<WorkflowParameters> {
+    if (!paramsPath) {
+        return {};
+    }
+
+    let params: unknown;
+    try {
+        params = JSON.parse(await readFile(paramsPath, 'utf8'));
+    } catch (err) {
+        const message = err instanceof Error ? err.message : String(err);
+        throw new Error(`The parameters file ${paramsPath} could not be read: ${message}`);
+    }
+
+    const isStageMap =
+        !!params &&
+        typeof params === 'object' &&
+        !Array.isArray(params) &&
+        Object.values(params).every(
+            (options) => !!options && typeof options === 'object' && !Array.isArray(options)
+        );
+    if (!isStageMap) {
+        throw new Error(
+            `The parameters file ${paramsPath} must map stage IDs to objects of options`
+        );
+    }
+    return params as WorkflowParameters;
+}
+
+/**
+ * Trigger a run of a workflow with the options of a parameters file.
+ *
+ * @param options - the workflow and parameters file
+ * @param output - where progress is printed
+ * @returns the new run
+ * @throws if the workflow does not exist, is paused, or the options are not valid
+ */
+export async function triggerRun(
+    options: TriggerRunOptions,
+    output: CliOutput
+): Promise<TriggeredRun> {
+    const { baseUrl, dagId } = options;
+
+    const workflow = (await getWorkflows(baseUrl)).find((dag) => dag.dag_id === dagId);
+    if (!workflow) {
+        throw new Error(`There is no workflow ${dagId}`);
+    }
+    if (workflow.is_paused) {
+        throw new Error(`The workflow ${dagId} is paused`);
+    }
+
+    const params = await readParameters(options.paramsPath);
+    const profiles = await getWorkflowProfiles(baseUrl, dagId);
+    const configs = await buildPipelineConfigs(profiles, params);
+
+    const run = await triggerWorkflow(baseUrl, dagId, configs);
+    output.info(`Triggered ${workflow.dag_display_name} (${profiles.length} stage(s))`);
+    return run;
+}
+
+/**
+ * Poll a run until it reaches a terminal state, printing each state change.
+ * A failed poll is retried at the next interval, so a network blip does not
+ * end a wait on a run that takes hours.
+ *
+ * @param baseUrl - the API base URL
+ * @param run - the run to wait for
+ * @param options - the polling options
+ * @param output - where state changes are printed
+ * @returns the finished run
+ */
+export async function waitForRun(
+    baseUrl: string,
+    { dagId, dagRunId }: TriggeredRun,
+    options: WaitForRunOptions,
+    output: CliOutput
+): Promise<WorkflowRun> {
+    const sleep =
+        options.sleep ?? ((ms: number) => new Promise<void>((resolve) => setTimeout(resolve, ms)));
+    let lastState: string | undefined;
+    let failures = 0;
+
+    while (true) {
+        let run: WorkflowRun;
+        try {
+            run = await getWorkflowRun(baseUrl, dagId, dagRunId);
+            failures = 0;
+        } catch (err) {
+            failures += 1;
+            if (failures >= MAX_POLL_FAILURES) {
+                throw err;
+            }
+            const message = err instanceof Error ? err.message : String(err);
+            output.info(`Warning: the run could not be polled: ${message}`);
+            await sleep(options.intervalMs);
+            continue;
+        }
+
+        if (run.state !== lastState) {
+            lastState = run.state;
+            output.info(`${dagRunId}: ${run.state}`);
+        }
+        if (isWorkflowRunFinished(run.state)) {
+            return run;
+        }
+        await sleep(options.intervalMs);
+    }
+}
@@ -0,0 +1,82 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import streamSaver from 'streamsaver';
+import { downloadArchive } from './archive';
+import { tarSize } from './stream';
+
+vi.mock('streamsaver', () => ({
+    default: { createWriteStream: vi.fn(), mitm: '' }
+}));
+
+const meta = {
+    sampleId: 'S1',
+    sampleType: 'isolate',
+    sampleMatrix: 'stool',
+    sampleCollectionDate: '2026-01-01T00:00:00.000+00:00'
+};
+
+/** A download that records what is written to it */
+function captureDownload(failAfter = Infinity) {
+    const written: Uint8Array[] = [];
+    let isClosed = false;
+    vi.mocked(streamSaver.createWriteStream).mockReturnValue(
+        new WritableStream<Uint8Array>({
+            write(chunk) {
+                if (written.length >= failAfter) {
+                    throw new Error('Download canceled');
+                }
+                written.push(new Uint8Array(chunk));
+            },
+            close() {
+                isClosed = true;
+            }
+        })
+    );
+    return {
+        written,
+        get isClosed() {
+            return isClosed;
+        }
+    };
+}
+
+describe('downloadArchive', () => {
+    afterEach(() => {
+        vi.unstubAllGlobals();
+    });
+
+    it('streams the sample archive to the download', async () => {
+        const files = [
+            new File([new Uint8Array(3_000).fill(1)], 'S1_R1.fastq.gz'),
+            new File([new Uint8Array(2_000).fill(2)], 'S1_R2.fastq.gz')
+        ];
+        const download = captureDownload();
+        vi.stubGlobal('location', new URL('https://cape.example.test/upload'));
+
+        await downloadArchive(meta, files, 'sample-S1.tar');
+
+        // The download page and service worker are served by the app itself
+        expect(streamSaver.mitm).toBe(
+            'https://cape.example.test/streamsaver/mitm.html?version=2.0.0'
+        );
+
+        expect(streamSaver.createWriteStream).toHaveBeenCalledWith('sample-S1.tar', {
+            size: tarSize(meta, files)
+        });
+        expect(download.written.length).toBeGreaterThan(1);
+        expect(download.written.reduce((n, chunk) => n + chunk.length, 0)).toBe(
+            tarSize(meta, files)
+        );
+        expect(download.isClosed).toBe(true);
+    });
+
+    it('rejects when the download is canceled', async () => {
+        const files = [new File([new Uint8Array(3_000).fill(1)], 'S1_R1.fastq.gz')];
+        const download = captureDownload(1);
+        vi.stubGlobal('location', new URL('https://cape.example.test/upload'));
+
+        await expect(downloadArchive(meta, files, 'sample-S1.tar')).rejects.toThrow(
+            'Download canceled'
+        );
+        expect(download.isClosed).toBe(false);
+    });
+});
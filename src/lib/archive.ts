@@ -0,0 +1,47 @@
+import { DEFAULT_ARCHIVE_DIR, tarPack, tarSize } from '$lib/stream';
+import type { SampleMeta } from '$lib/stream';
+
+/**
+ * StreamSaver's download page, served from `static/streamsaver/` (copied from
+ * the `streamsaver` package) instead of the author's GitHub Pages site
+ */
+export const STREAMSAVER_MITM_PATH = '/streamsaver/mitm.html?version=2.0.0';
+
+/**
+ * Save the sample archive to disk instead of uploading it, e.g. to hand it to
+ * a partner site or inspect it first.
+ *
+ * The archive is the same `tarPack` output an upload sends. It is streamed to
+ * the download through StreamSaver, one tar chunk at a time, so it is never
+ * held in memory.
+ *
+ * @param meta - the sample metadata
+ * @param files - the sequencing files
+ * @param filename - the name of the downloaded file
+ * @param archiveDir - the archive directory of the files
+ */
+export async function downloadArchive(
+    meta: SampleMeta,
+    files: File[],
+    filename: string,
+    archiveDir = DEFAULT_ARCHIVE_DIR
+): Promise<void> {
+    // StreamSaver touches `document` when it loads, so only load it on demand
+    const { default: streamSaver } = await import('streamsaver');
+    streamSaver.mitm = new URL(STREAMSAVER_MITM_PATH, location.origin).href;
+    const writer = streamSaver
+        .createWriteStream(filename, { size: tarSize(meta, files, archiveDir) })
+        .getWriter();
+
+    try {
+        for await (const chunk of tarPack(meta, files, archiveDir)) {
+            // Waiting for the write keeps tar-stream from reading ahead of the disk
+            await writer.write(chunk);
+        }
+        await writer.close();
+    } catch (err) {
+        // Cancel the download rather than leave a truncated archive behind
+        await writer.abort(err).catch(() => {});
+        throw err;
+    }
+}
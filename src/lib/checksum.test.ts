@@ -0,0 +1,39 @@
+import { describe, it, expect } from 'vitest';
+import { combineCrc64Nvme, createCrc64Nvme, crc64Nvme } from './checksum';
+
+function toHex(checksum: string): string {
+    return Array.from(atob(checksum), (c) => c.charCodeAt(0).toString(16).padStart(2, '0')).join(
+        ''
+    );
+}
+
+const bytes = Uint8Array.from({ length: 100_003 }, (_, i) => (i * 31) & 0xff);
+
+describe('crc64Nvme', () => {
+    it('matches the CRC-64/NVME check value', () => {
+        expect(toHex(crc64Nvme(new TextEncoder().encode('123456789')))).toBe('ae8b14860a799888');
+    });
+
+    it('gives the same result when fed incrementally', () => {
+        const checksum = createCrc64Nvme();
+        checksum.update(bytes.subarray(0, 5));
+        checksum.update(bytes.subarray(5, 4_099));
+        checksum.update(bytes.subarray(4_099));
+        expect(checksum.digest()).toBe(crc64Nvme(bytes));
+    });
+});
+
+describe('combineCrc64Nvme', () => {
+    it('combines part checksums into the checksum of the whole stream', () => {
+        let combined: string | undefined;
+        for (let offset = 0; offset < bytes.length; offset += 10_000) {
+            const part = bytes.subarray(offset, offset + 10_000);
+            const partChecksum = crc64Nvme(part);
+            combined =
+                combined === undefined
+                    ? partChecksum
+                    : combineCrc64Nvme(combined, partChecksum, part.length);
+        }
+        expect(combined).toBe(crc64Nvme(bytes));
+    });
+});
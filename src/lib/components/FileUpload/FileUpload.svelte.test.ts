@@ -1,38 +1,143 @@
-import { fireEvent, render, screen } from '@testing-library/svelte';
+import { fireEvent, render, screen, waitFor, within } from '@testing-library/svelte';
 import { beforeEach, describe, expect, it, vi } from 'vitest';
 import FileUpload from './FileUpload.svelte';
 import { toaster } from '$lib/toaster';
+import { multiPartUpload } from '$lib/mpu';
+import { inspectFastq } from '$lib/fastq';
+import { inspectBam } from '$lib/fileTypes';
+import { downloadArchive } from '$lib/archive';
+import { packChunks } from '$lib/packer';
+import { DEFAULT_SAMPLE_META_SCHEMA, getSampleMetaSchema } from '$lib/sampleMeta';
+import { findKeyConflict } from '$lib/storage';
+import { discardUploadSession, getUploadSession } from '$lib/uploadSessions';
+import type { KeyConflict } from '$lib/storage';
+import type { UploadSession } from '$lib/uploadSessions';
 
 vi.mock('$lib/toaster', () => ({
     toaster: {
         error: vi.fn(),
         info: vi.fn(),
-        success: vi.fn()
+        success: vi.fn(),
+        warning: vi.fn()
     }
 }));
 
-vi.mock('$lib/mpu', () => ({
+vi.mock('$lib/mpu', async (importOriginal) => ({
+    ...(await importOriginal<typeof import('$lib/mpu')>()),
+    getPartSize: vi.fn(() => 10 * 1024 * 1024),
     multiPartUpload: vi.fn()
 }));
 
-vi.mock('$lib/stream', () => ({
-    tarSize: vi.fn(() => 0),
-    tarPack: vi.fn(),
-    chunkStream: vi.fn()
+vi.mock('$lib/stream', async (importOriginal) => ({
+    ...(await importOriginal<typeof import('$lib/stream')>()),
+    tarSize: vi.fn(() => 0)
 }));
 
+vi.mock('$lib/archive', () => ({
+    downloadArchive: vi.fn()
+}));
+
+vi.mock('$lib/packer', () => ({
+    packChunks: vi.fn()
+}));
+
+vi.mock('$lib/sampleMeta', async (importOriginal) => ({
+    ...(await importOriginal<typeof import('$lib/sampleMeta')>()),
+    getSampleMetaSchema: vi.fn()
+}));
+
+vi.mock('$lib/storage', () => ({
+    findKeyConflict: vi.fn()
+}));
+
+vi.mock('$lib/uploadSessions', async (importOriginal) => ({
+    ...(await importOriginal<typeof import('$lib/uploadSessions')>()),
+    getUploadSession: vi.fn(),
+    discardUploadSession: vi.fn(),
+    pruneExpiredUploadSessions: vi.fn(async () => {})
+}));
+
+vi.mock('$lib/fastq', async (importOriginal) => ({
+    ...(await importOriginal<typeof import('$lib/fastq')>()),
+    inspectFastq: vi.fn()
+}));
+
+vi.mock('$lib/fileTypes', async (importOriginal) => ({
+    ...(await importOriginal<typeof import('$lib/fileTypes')>()),
+    inspectBam: vi.fn()
+}));
+
+function selectFiles(container: HTMLElement, names: string[]) {
+    const input = container.querySelector('input[name="file"]') as HTMLInputElement;
+    return fireEvent.input(input, {
+        target: { files: names.map((name) => new File(['@r1'], name)) }
+    });
+}
+
+/** Render the form and wait for its metadata schema to load */
+async function renderForm() {
+    const result = render(FileUpload, {
+        props: {
+            baseUrl: 'https://api.example.test',
+            bucket: 'example-bucket'
+        }
+    });
+    await screen.findByLabelText('Sample ID');
+    return result;
+}
+
+async function fillMeta(values: Record<string, string>) {
+    for (const [label, value] of Object.entries(values)) {
+        const field = screen.getByLabelText(label);
+        if (field instanceof HTMLSelectElement) {
+            await fireEvent.change(field, { target: { value } });
+        } else {
+            await fireEvent.input(field, { target: { value } });
+        }
+    }
+}
+
+const requiredMeta = {
+    'Sample ID': '123',
+    'Sample Type': 'isolate',
+    'Sample Matrix': 'stool'
+};
+
+const storedSample: KeyConflict = {
+    key: 'unprocessed/sample-123.tar',
+    object: {
+        key: 'unprocessed/sample-123.tar',
+        size: 2048,
+        lastModified: '2025-08-15T12:00:00.000Z',
+        status: 'unprocessed'
+    },
+    uploads: []
+};
+
+/** Fill in the sample, select a file and press Upload */
+async function submitSample(container: HTMLElement) {
+    await fillMeta(requiredMeta);
+    await selectFiles(container, ['reads.fastq.gz']);
+    await waitFor(() => expect(screen.getByRole('button', { name: 'Upload' })).toBeEnabled());
+    await fireEvent.click(screen.getByRole('button', { name: 'Upload' }));
+}
+
 describe('FileUpload.svelte', () => {
     beforeEach(() => {
         vi.clearAllMocks();
+        vi.mocked(getSampleMetaSchema).mockResolvedValue(DEFAULT_SAMPLE_META_SCHEMA);
+        vi.mocked(findKeyConflict).mockResolvedValue(undefined);
+        vi.mocked(inspectFastq).mockImplementation(async (file) => ({
+            name: file.name,
+            isGzip: true,
+            records: 4,
+            errors: [],
+            warnings: []
+        }));
     });
 
-    it('renders metadata fields and upload controls', () => {
-        render(FileUpload, {
-            props: {
-                baseUrl: 'https://api.example.test',
-                bucket: 'example-bucket'
-            }
-        });
+    it('renders metadata fields and upload controls', async () => {
+        await renderForm();
 
         expect(screen.getByRole('heading', { name: 'File Upload' })).toBeInTheDocument();
         expect(screen.getByLabelText('Sample ID')).toHaveAttribute('name', 'sample-id');
@@ -50,17 +155,534 @@ describe('FileUpload.svelte', () => {
     });
 
     it('shows an error when upload is clicked without selected files', async () => {
-        render(FileUpload, {
+        await renderForm();
+
+        await fireEvent.click(screen.getByRole('button', { name: 'Upload' }));
+
+        expect(toaster.error).toHaveBeenCalledWith({
+            title: 'No file selected'
+        });
+    });
+
+    it('adds each sample to the upload queue and clears the form', async () => {
+        vi.mocked(multiPartUpload).mockReturnValue(new Promise(() => {}));
+        const { container } = await renderForm();
+
+        await submitSample(container);
+
+        expect(toaster.error).not.toHaveBeenCalled();
+        expect(await screen.findByRole('region', { name: 'Upload queue' })).toBeInTheDocument();
+        expect(screen.getByText('sample-123.tar')).toBeInTheDocument();
+        expect(screen.getByLabelText('Sample ID')).toHaveValue('');
+        await waitFor(() =>
+            expect(multiPartUpload).toHaveBeenCalledWith(
+                undefined,
+                0,
+                expect.objectContaining({ key: 'unprocessed/sample-123.tar' })
+            )
+        );
+    });
+
+    it('offers to run a workflow on a completed sample', async () => {
+        vi.mocked(multiPartUpload).mockResolvedValue({
+            location: 'https://example-bucket.s3.amazonaws.com/unprocessed/sample-123.tar',
+            bucket: 'example-bucket',
+            key: 'unprocessed/sample-123.tar',
+            etag: 'etag-1',
+            checksum: 'checksum-1',
+            checksumType: 'FULL_OBJECT',
+            checksumVerified: true
+        });
+        const onRunWorkflow = vi.fn();
+        const { container } = render(FileUpload, {
             props: {
                 baseUrl: 'https://api.example.test',
-                bucket: 'example-bucket'
+                bucket: 'example-bucket',
+                onRunWorkflow
             }
         });
+        await screen.findByLabelText('Sample ID');
+
+        await submitSample(container);
+        await fireEvent.click(
+            await screen.findByRole('button', { name: 'Run a workflow on sample-123.tar' })
+        );
+
+        expect(onRunWorkflow).toHaveBeenCalledExactlyOnceWith({
+            bucket: 'example-bucket',
+            key: 'unprocessed/sample-123.tar',
+            sampleId: '123'
+        });
+    });
+
+    it('warns when storage could not verify a completed upload', async () => {
+        vi.mocked(multiPartUpload).mockResolvedValue({
+            location: 'https://example-bucket.s3.amazonaws.com/unprocessed/sample-123.tar',
+            bucket: 'example-bucket',
+            key: 'unprocessed/sample-123.tar',
+            etag: 'etag-1',
+            checksum: 'checksum-1',
+            checksumType: '',
+            checksumVerified: false
+        });
+        const { container } = await renderForm();
+
+        await submitSample(container);
+
+        expect(await screen.findByText('Not verified')).toBeInTheDocument();
+        expect(toaster.warning).toHaveBeenCalledWith({
+            title: 'Upload sample-123.tar completed without verification.',
+            description: 'Storage did not report a checksum to compare with checksum-1.'
+        });
+        expect(toaster.success).not.toHaveBeenCalled();
+    });
+
+    it('checks the key before uploading and uploads a renamed sample', async () => {
+        vi.mocked(multiPartUpload).mockReturnValue(new Promise(() => {}));
+        vi.mocked(findKeyConflict).mockImplementation(async ({ key }) =>
+            key === storedSample.key ? storedSample : undefined
+        );
+        const { container } = await renderForm();
+
+        await submitSample(container);
+
+        const dialog = await screen.findByRole('dialog', { name: 'sample-123.tar already exists' });
+        expect(findKeyConflict).toHaveBeenCalledWith({
+            baseUrl: 'https://api.example.test',
+            bucket: 'example-bucket',
+            key: 'unprocessed/sample-123.tar'
+        });
+        expect(within(dialog).getByLabelText('New sample ID')).toHaveValue('123-2');
+        await fireEvent.input(within(dialog).getByLabelText('New sample ID'), {
+            target: { value: '124' }
+        });
+        await fireEvent.click(within(dialog).getByRole('button', { name: 'Rename' }));
+
+        expect(await screen.findByText('sample-124.tar')).toBeInTheDocument();
+        expect(screen.queryByRole('dialog')).not.toBeInTheDocument();
+        expect(findKeyConflict).toHaveBeenLastCalledWith(
+            expect.objectContaining({ key: 'unprocessed/sample-124.tar' })
+        );
+        await waitFor(() =>
+            expect(multiPartUpload).toHaveBeenCalledWith(
+                undefined,
+                0,
+                expect.objectContaining({ key: 'unprocessed/sample-124.tar' })
+            )
+        );
+    });
+
+    it('overwrites a stored sample only once confirmed', async () => {
+        vi.mocked(multiPartUpload).mockReturnValue(new Promise(() => {}));
+        vi.mocked(findKeyConflict).mockResolvedValue({
+            ...storedSample,
+            uploads: [
+                {
+                    key: storedSample.key,
+                    uploadId: 'upload-1',
+                    initiated: '2025-08-14T09:30:00.000Z'
+                }
+            ]
+        });
+        const { container } = await renderForm();
+
+        await submitSample(container);
+        const dialog = await screen.findByRole('dialog');
+        expect(within(dialog).getByText(/^Upload in progress since/)).toBeInTheDocument();
+        await fireEvent.click(within(dialog).getByRole('button', { name: 'Overwrite' }));
+
+        expect(screen.queryByRole('region', { name: 'Upload queue' })).not.toBeInTheDocument();
+        await fireEvent.click(within(dialog).getByRole('button', { name: 'Confirm overwrite' }));
+
+        expect(await screen.findByText('sample-123.tar')).toBeInTheDocument();
+        expect(screen.queryByRole('dialog')).not.toBeInTheDocument();
+        await waitFor(() =>
+            expect(multiPartUpload).toHaveBeenCalledWith(
+                undefined,
+                0,
+                expect.objectContaining({ key: 'unprocessed/sample-123.tar' })
+            )
+        );
+    });
+
+    it('keeps the form when a conflicting upload is canceled', async () => {
+        vi.mocked(findKeyConflict).mockResolvedValue(storedSample);
+        const { container } = await renderForm();
+
+        await submitSample(container);
+        const dialog = await screen.findByRole('dialog');
+        await fireEvent.click(within(dialog).getByRole('button', { name: 'Cancel' }));
+
+        expect(screen.queryByRole('dialog')).not.toBeInTheDocument();
+        expect(screen.queryByRole('region', { name: 'Upload queue' })).not.toBeInTheDocument();
+        expect(screen.getByLabelText('Sample ID')).toHaveValue('123');
+        expect(multiPartUpload).not.toHaveBeenCalled();
+    });
+
+    it('does not upload when the key cannot be checked', async () => {
+        vi.mocked(findKeyConflict).mockRejectedValue(new Error('Network Error'));
+        const { container } = await renderForm();
+
+        await submitSample(container);
+
+        await waitFor(() =>
+            expect(toaster.error).toHaveBeenCalledWith({
+                title: 'An error occurred while checking for an existing sample-123.tar: Network Error',
+                description: 'The upload was not started.'
+            })
+        );
+        expect(screen.queryByRole('region', { name: 'Upload queue' })).not.toBeInTheDocument();
+        expect(screen.getByRole('button', { name: 'Upload' })).toBeEnabled();
+    });
+
+    it('starts a renamed resume over with the saved metadata', async () => {
+        vi.mocked(multiPartUpload).mockReturnValue(new Promise(() => {}));
+        const session: UploadSession = {
+            id: 'fingerprint',
+            uploadId: 'upload-1',
+            bucket: 'example-bucket',
+            key: storedSample.key,
+            partSize: 10 * 1024 * 1024,
+            totalBytes: 2048,
+            meta: {
+                sampleId: '123',
+                sampleType: 'isolate',
+                sampleMatrix: 'wastewater',
+                sampleCollectionDate: '2025-08-15T00:00:00.000+00:00'
+            },
+            archiveDir: 'sequencing',
+            parts: [{ partNumber: 1, eTag: '"etag-1"' }],
+            createdAt: Date.now(),
+            updatedAt: Date.now()
+        };
+        vi.mocked(getUploadSession).mockResolvedValue(session);
+        vi.mocked(findKeyConflict).mockImplementation(async ({ key }) =>
+            key === storedSample.key ? storedSample : undefined
+        );
+        const { container } = await renderForm();
+
+        await fillMeta({ 'Sample Type': 'metagenome', 'Sample Matrix': 'stool' });
+        await selectFiles(container, ['reads.fastq.gz']);
+        await fireEvent.click(await screen.findByRole('button', { name: 'Resume upload' }));
+        const dialog = await screen.findByRole('dialog', { name: 'sample-123.tar already exists' });
+        await fireEvent.click(within(dialog).getByRole('button', { name: 'Rename' }));
+
+        expect(await screen.findByText('sample-123-2.tar')).toBeInTheDocument();
+        expect(discardUploadSession).toHaveBeenCalledWith('https://api.example.test', session);
+        await waitFor(() =>
+            expect(multiPartUpload).toHaveBeenCalledWith(
+                undefined,
+                0,
+                expect.objectContaining({ key: 'unprocessed/sample-123-2.tar' })
+            )
+        );
+        expect(packChunks).toHaveBeenCalledWith(
+            { ...session.meta, sampleId: '123-2' },
+            expect.anything(),
+            expect.anything(),
+            expect.anything()
+        );
+    });
+
+    it('checks every sample sheet row and holds back the ones already stored', async () => {
+        vi.mocked(multiPartUpload).mockReturnValue(new Promise(() => {}));
+        vi.mocked(findKeyConflict).mockImplementation(async ({ key }) =>
+            key === 'unprocessed/sample-S2.tar' ? { ...storedSample, key } : undefined
+        );
+        const { container } = await renderForm();
+        const sheet = [
+            'sample_id,sample_type,sample_matrix,collection_date,fastq',
+            'S1,isolate,stool,2025-08-15,S1.fastq.gz',
+            'S2,isolate,stool,2025-08-15,S2.fastq.gz',
+            'S3,isolate,stool,2025-08-15,S3.fastq.gz'
+        ].join('\n');
+
+        await selectFiles(container, ['S1.fastq.gz', 'S2.fastq.gz', 'S3.fastq.gz']);
+        await fireEvent.change(screen.getByLabelText('Import sample sheet'), {
+            target: { files: [new File([sheet], 'samples.csv', { type: 'text/csv' })] }
+        });
+        await fireEvent.click(await screen.findByRole('button', { name: 'Queue 3 samples' }));
+
+        const dialog = await screen.findByRole('dialog', { name: 'sample-S2.tar already exists' });
+        expect(screen.getByText('sample-S1.tar')).toBeInTheDocument();
+        expect(screen.queryByText('sample-S3.tar')).not.toBeInTheDocument();
+        expect(within(dialog).getByLabelText('New sample ID')).toHaveValue('S2-2');
+        await fireEvent.click(within(dialog).getByRole('button', { name: 'Rename' }));
+
+        expect(await screen.findByText('sample-S2-2.tar')).toBeInTheDocument();
+        expect(screen.getByText('sample-S3.tar')).toBeInTheDocument();
+        expect(screen.queryByText('sample-S2.tar')).not.toBeInTheDocument();
+        expect(screen.queryByRole('dialog')).not.toBeInTheDocument();
+        expect(vi.mocked(findKeyConflict).mock.calls.map(([{ key }]) => key)).toEqual([
+            'unprocessed/sample-S1.tar',
+            'unprocessed/sample-S2.tar',
+            'unprocessed/sample-S2-2.tar',
+            'unprocessed/sample-S3.tar'
+        ]);
+        expect(toaster.info).toHaveBeenCalledWith({
+            title: 'Queued 3 samples from the sample sheet.'
+        });
+    });
+
+    it('skips a canceled sample sheet row and queues the rest', async () => {
+        vi.mocked(multiPartUpload).mockReturnValue(new Promise(() => {}));
+        vi.mocked(findKeyConflict).mockImplementation(async ({ key }) =>
+            key === 'unprocessed/sample-S1.tar' ? { ...storedSample, key } : undefined
+        );
+        const { container } = await renderForm();
+        const sheet = [
+            'sample_id,sample_type,sample_matrix,collection_date,fastq',
+            'S1,isolate,stool,2025-08-15,S1.fastq.gz',
+            'S2,isolate,stool,2025-08-15,S2.fastq.gz'
+        ].join('\n');
+
+        await selectFiles(container, ['S1.fastq.gz', 'S2.fastq.gz']);
+        await fireEvent.change(screen.getByLabelText('Import sample sheet'), {
+            target: { files: [new File([sheet], 'samples.csv', { type: 'text/csv' })] }
+        });
+        await fireEvent.click(await screen.findByRole('button', { name: 'Queue 2 samples' }));
+        const dialog = await screen.findByRole('dialog', { name: 'sample-S1.tar already exists' });
+        await fireEvent.click(within(dialog).getByRole('button', { name: 'Cancel' }));
+
+        expect(await screen.findByText('sample-S2.tar')).toBeInTheDocument();
+        expect(screen.queryByText('sample-S1.tar')).not.toBeInTheDocument();
+        expect(toaster.info).toHaveBeenCalledWith({
+            title: 'Queued 1 sample from the sample sheet.'
+        });
+    });
+
+    it('shows pre-flight results and blocks the upload while a file is invalid', async () => {
+        vi.mocked(inspectFastq).mockImplementation(async (file) => ({
+            name: file.name,
+            isGzip: false,
+            records: 0,
+            errors: file.name.startsWith('bad')
+                ? ['The file is named .gz but is not gzip compressed']
+                : [],
+            warnings: []
+        }));
+        const { container } = await renderForm();
+
+        await selectFiles(container, ['bad_R1.fastq.gz', 'good_1.fastq.gz']);
+
+        const bad = await screen.findByRole('listitem', { name: 'bad_R1.fastq.gz' });
+        await waitFor(() =>
+            expect(
+                within(bad).getByText('The file is named .gz but is not gzip compressed')
+            ).toBeInTheDocument()
+        );
+        expect(within(bad).getByText('No read 2 mate was selected')).toBeInTheDocument();
+        const good = screen.getByRole('listitem', { name: 'good_1.fastq.gz' });
+        expect(within(good).getByText('No read 2 mate was selected')).toBeInTheDocument();
+        expect(screen.getByRole('button', { name: 'Upload' })).toBeDisabled();
+
+        await fireEvent.click(screen.getByRole('button', { name: 'Remove bad_R1.fastq.gz' }));
+
+        await waitFor(() => expect(screen.getByRole('button', { name: 'Upload' })).toBeEnabled());
+    });
+
+    it('accepts, checks and places the files of the selected data type', async () => {
+        vi.mocked(multiPartUpload).mockReturnValue(new Promise(() => {}));
+        vi.mocked(inspectBam).mockImplementation(async (file) => ({
+            name: file.name,
+            errors: [],
+            warnings: []
+        }));
+        const { container } = await renderForm();
+
+        await fireEvent.change(screen.getByLabelText('Data type'), {
+            target: { value: 'alignment' }
+        });
+        expect(
+            screen.getByRole('heading', { name: 'BAM/CRAM alignment Files' })
+        ).toBeInTheDocument();
+
+        await fillMeta(requiredMeta);
+        await selectFiles(container, ['reads.fastq.gz', 'S1.bam']);
+
+        expect(toaster.error).toHaveBeenCalledWith({
+            title: 'reads.fastq.gz is not a *.bam, *.cram, *.bai, *.csi, *.crai file'
+        });
+        const bam = await screen.findByRole('listitem', { name: 'S1.bam' });
+        expect(
+            within(bam).getByText('No matching .bai or .csi file was selected')
+        ).toBeInTheDocument();
+        expect(screen.getByRole('button', { name: 'Upload' })).toBeDisabled();
+
+        await selectFiles(container, ['S1.bam.bai']);
+        await waitFor(() => expect(screen.getByRole('button', { name: 'Upload' })).toBeEnabled());
+        expect(
+            within(screen.getByRole('region', { name: 'Archive contents' }))
+                .getAllByRole('listitem')
+                .map((item) => item.getAttribute('aria-label'))
+        ).toEqual(['alignment/S1.bam', 'alignment/S1.bam.bai', 'meta.json']);
+        expect(screen.queryByRole('region', { name: 'Sample sheet' })).not.toBeInTheDocument();
 
         await fireEvent.click(screen.getByRole('button', { name: 'Upload' }));
 
+        await waitFor(() =>
+            expect(multiPartUpload).toHaveBeenCalledWith(
+                undefined,
+                0,
+                expect.objectContaining({ key: 'unprocessed/alignments/sample-123.tar' })
+            )
+        );
+        expect(findKeyConflict).toHaveBeenCalledWith({
+            baseUrl: 'https://api.example.test',
+            bucket: 'example-bucket',
+            key: 'unprocessed/alignments/sample-123.tar'
+        });
+    });
+
+    it('previews the archive and downloads it instead of uploading', async () => {
+        vi.mocked(downloadArchive).mockResolvedValue();
+        const { container } = await renderForm();
+
+        await fillMeta(requiredMeta);
+        await selectFiles(container, ['reads_R1.fastq.gz', 'reads_R2.fastq.gz']);
+
+        const preview = screen.getByRole('region', { name: 'Archive contents' });
+        expect(within(preview).getByText('sample-123.tar')).toBeInTheDocument();
+        expect(
+            within(preview)
+                .getAllByRole('listitem')
+                .map((item) => item.getAttribute('aria-label'))
+        ).toEqual(['sequencing/reads_R1.fastq.gz', 'sequencing/reads_R2.fastq.gz', 'meta.json']);
+
+        await fireEvent.click(screen.getByRole('radio', { name: 'Download archive' }));
+        const download = screen.getByRole('button', { name: 'Download archive' });
+        await waitFor(() => expect(download).toBeEnabled());
+        await fireEvent.click(download);
+
+        await waitFor(() =>
+            expect(toaster.success).toHaveBeenCalledWith({ title: 'Saved sample-123.tar.' })
+        );
+        const [meta, files, name] = vi.mocked(downloadArchive).mock.calls[0];
+        expect(meta).toMatchObject({
+            sampleId: '123',
+            sampleType: 'isolate',
+            sampleMatrix: 'stool'
+        });
+        expect(files.map((file) => file.name)).toEqual(['reads_R1.fastq.gz', 'reads_R2.fastq.gz']);
+        expect(name).toBe('sample-123.tar');
+        expect(multiPartUpload).not.toHaveBeenCalled();
+        // The form is kept, so the same sample can still be uploaded
+        expect(screen.getByLabelText('Sample ID')).toHaveValue('123');
+    });
+
+    it('reports a failed download', async () => {
+        vi.mocked(downloadArchive).mockRejectedValue(new Error('Download canceled'));
+        const { container } = await renderForm();
+
+        await fillMeta(requiredMeta);
+        await selectFiles(container, ['reads.fastq.gz']);
+        await fireEvent.click(screen.getByRole('radio', { name: 'Download archive' }));
+        const download = screen.getByRole('button', { name: 'Download archive' });
+        await waitFor(() => expect(download).toBeEnabled());
+        await fireEvent.click(download);
+
+        await waitFor(() =>
+            expect(toaster.error).toHaveBeenCalledWith({
+                title: 'An error occurred while downloading sample-123.tar: Download canceled'
+            })
+        );
+        expect(download).toBeEnabled();
+    });
+
+    it('records the collection location as structured data', async () => {
+        vi.mocked(downloadArchive).mockResolvedValue();
+        const { container } = await renderForm();
+
+        await fillMeta(requiredMeta);
+        await screen.findByLabelText('Country');
+        await fillMeta({ Country: 'US', Subdivision: 'US-GA', Latitude: '95' });
+        expect(screen.getByText('Latitude must be a number from -90 to 90')).toBeInTheDocument();
+        await fillMeta({ Locality: 'Atlanta', Latitude: '33.749', Longitude: '-84.388' });
+        await selectFiles(container, ['reads.fastq.gz']);
+        await fireEvent.click(screen.getByRole('radio', { name: 'Download archive' }));
+        const download = screen.getByRole('button', { name: 'Download archive' });
+        await waitFor(() => expect(download).toBeEnabled());
+        await fireEvent.click(download);
+
+        await waitFor(() => expect(downloadArchive).toHaveBeenCalled());
+        expect(vi.mocked(downloadArchive).mock.calls[0][0].sampleCollectionLocation).toEqual({
+            country: 'US',
+            subdivision: 'US-GA',
+            locality: 'Atlanta',
+            latitude: 33.749,
+            longitude: -84.388,
+            display: 'Atlanta, Georgia, United States'
+        });
+    });
+
+    it('renders the metadata form from the schema of the bucket', async () => {
+        vi.mocked(multiPartUpload).mockReturnValue(new Promise(() => {}));
+        vi.mocked(getSampleMetaSchema).mockResolvedValue({
+            type: 'object',
+            required: ['sampleId', 'sampleType', 'readLength'],
+            properties: {
+                sampleId: { type: 'string', title: 'Sample ID' },
+                sampleType: {
+                    type: 'string',
+                    title: 'Sample Type',
+                    enum: ['isolate', 'metagenome']
+                },
+                readLength: { type: 'integer', title: 'Read Length', minimum: 1 }
+            }
+        });
+        const { container } = await renderForm();
+
+        expect(getSampleMetaSchema).toHaveBeenCalledWith(
+            'https://api.example.test',
+            'example-bucket'
+        );
+        expect(screen.queryByLabelText('Sample Matrix')).not.toBeInTheDocument();
+        const sampleType = screen.getByLabelText('Sample Type');
+        expect(
+            within(sampleType)
+                .getAllByRole('option')
+                .map((option) => option.textContent)
+        ).toEqual(['Select…', 'isolate', 'metagenome']);
+
+        await fillMeta({ 'Sample ID': '123', 'Read Length': '0' });
+        await selectFiles(container, ['reads.fastq.gz']);
+        await waitFor(() => expect(screen.getByRole('button', { name: 'Upload' })).toBeEnabled());
+        await fireEvent.click(screen.getByRole('button', { name: 'Upload' }));
+
         expect(toaster.error).toHaveBeenCalledWith({
-            title: 'No file selected'
+            title: 'Validation failed: 2 errors found',
+            description: 'Please fix the highlighted fields and try again'
+        });
+        expect(screen.getByText('Sample Type is required')).toBeInTheDocument();
+        expect(screen.getByText('Read Length must be >= 1')).toBeInTheDocument();
+        expect(screen.queryByRole('region', { name: 'Upload queue' })).not.toBeInTheDocument();
+
+        await fillMeta({ 'Sample Type': 'isolate', 'Read Length': '150' });
+        await fireEvent.click(screen.getByRole('button', { name: 'Upload' }));
+
+        await waitFor(() => expect(multiPartUpload).toHaveBeenCalled());
+        expect(vi.mocked(multiPartUpload).mock.calls[0][2].key).toBe('unprocessed/sample-123.tar');
+        expect(screen.getByRole('region', { name: 'Upload queue' })).toBeInTheDocument();
+    });
+
+    it('keeps uploads disabled when the metadata schema cannot be read', async () => {
+        vi.mocked(getSampleMetaSchema).mockRejectedValue(new Error('Network Error'));
+        render(FileUpload, {
+            props: {
+                baseUrl: 'https://api.example.test',
+                bucket: 'example-bucket'
+            }
         });
+
+        expect(
+            await screen.findByText('The sample metadata form could not be loaded: Network Error')
+        ).toBeInTheDocument();
+        expect(screen.getByRole('button', { name: 'Upload' })).toBeDisabled();
+
+        vi.mocked(getSampleMetaSchema).mockResolvedValue(DEFAULT_SAMPLE_META_SCHEMA);
+        await fireEvent.click(screen.getByRole('button', { name: 'Retry' }));
+
+        expect(await screen.findByLabelText('Sample ID')).toBeInTheDocument();
+        expect(screen.getByRole('button', { name: 'Upload' })).toBeEnabled();
     });
 });
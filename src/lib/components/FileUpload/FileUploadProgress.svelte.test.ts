@@ -1,6 +1,7 @@
-import { render, screen } from '@testing-library/svelte';
-import { describe, expect, it } from 'vitest';
+import { fireEvent, render, screen } from '@testing-library/svelte';
+import { describe, expect, it, vi } from 'vitest';
 import FileUploadProgress from './FileUploadProgress.svelte';
+import { createUploadProgress, recordPartStatus, recordSentBytes } from '$lib/uploadProgress';
 
 describe('FileUploadProgress.svelte', () => {
     it('renders filename, byte counts, and progress percentage', () => {
@@ -21,4 +22,85 @@ describe('FileUploadProgress.svelte', () => {
             screen.getByRole('progressbar', { name: 'Uploading sample-123.tar' })
         ).toHaveAttribute('aria-valuenow', '50');
     });
+
+    it('shows the queue state and the controls that apply to it', async () => {
+        const onResume = vi.fn();
+        render(FileUploadProgress, {
+            props: {
+                filename: 'sample-123.tar',
+                upload: { state: 'paused', bytesSent: 512, totalBytes: 1024 },
+                onPause: vi.fn(),
+                onResume,
+                onCancel: vi.fn()
+            }
+        });
+
+        expect(screen.getByText('Paused')).toBeInTheDocument();
+        expect(screen.queryByRole('button', { name: 'Pause sample-123.tar' })).toBeNull();
+        expect(screen.getByRole('button', { name: 'Cancel sample-123.tar' })).toBeInTheDocument();
+
+        await fireEvent.click(screen.getByRole('button', { name: 'Resume sample-123.tar' }));
+        expect(onResume).toHaveBeenCalledOnce();
+    });
+
+    it('shows why a failed upload failed', () => {
+        render(FileUploadProgress, {
+            props: {
+                filename: 'sample-123.tar',
+                upload: { state: 'failed', bytesSent: 0, totalBytes: 1024 },
+                error: 'Part 1 upload failed after 4 attempt(s): Forbidden',
+                onRetry: vi.fn()
+            }
+        });
+
+        expect(screen.getByText('Failed')).toBeInTheDocument();
+        expect(
+            screen.getByText('Part 1 upload failed after 4 attempt(s): Forbidden')
+        ).toBeInTheDocument();
+        expect(screen.getByRole('button', { name: 'Retry sample-123.tar' })).toBeInTheDocument();
+    });
+
+    it('shows the time left and expands into the part states and retries', async () => {
+        const progress = createUploadProgress(3000, 1000, 0);
+        recordPartStatus(progress, { partNumber: 1, state: 'done', attempt: 0 }, 0);
+        recordSentBytes(progress, 1000, { partNumber: 1, attempt: 0 }, 0);
+        recordPartStatus(progress, { partNumber: 2, state: 'in-flight', attempt: 1 }, 0);
+        recordSentBytes(progress, 1500, { partNumber: 2, attempt: 1 }, 1000);
+        recordPartStatus(
+            progress,
+            {
+                partNumber: 2,
+                state: 'retrying',
+                attempt: 1,
+                delayMs: 30_000,
+                reason: '503 Service Unavailable'
+            },
+            Date.now()
+        );
+
+        render(FileUploadProgress, {
+            props: {
+                filename: 'sample-123.tar',
+                upload: { state: 'uploading', bytesSent: 1500, totalBytes: 3000, progress }
+            }
+        });
+
+        expect(screen.getByText('Retrying')).toBeInTheDocument();
+        expect(screen.getByText(/3 s left/)).toBeInTheDocument();
+        expect(screen.queryByLabelText('Upload details')).toBeNull();
+
+        const toggle = screen.getByRole('button', { name: 'Show details of sample-123.tar' });
+        await fireEvent.click(toggle);
+
+        expect(toggle).toHaveAttribute('aria-expanded', 'true');
+        const details = screen.getByLabelText('Upload details');
+        expect(details).toHaveTextContent('Parts done 1 of 3');
+        expect(details).toHaveTextContent('Retries 1');
+        expect(details).toHaveTextContent(
+            '1 pending · 0 in flight · 1 retrying · 1 done · 0 failed'
+        );
+        expect(screen.getByRole('list', { name: 'Active parts' })).toHaveTextContent(
+            /Part 2: 500 B \/ 1000 B · attempt 1 failed \(503 Service Unavailable\), retrying in (29|30) s/
+        );
+    });
 });
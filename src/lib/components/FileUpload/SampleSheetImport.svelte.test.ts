@@ -0,0 +1,66 @@
+import { fireEvent, render, screen, waitFor, within } from '@testing-library/svelte';
+import { describe, expect, it, vi } from 'vitest';
+import SampleSheetImport from './SampleSheetImport.svelte';
+import type { SampleMeta } from '$lib/stream';
+
+vi.mock('$lib/toaster', () => ({
+    toaster: {
+        error: vi.fn()
+    }
+}));
+
+const sheet = [
+    'sample_id,sample_type,sample_matrix,collection_date,fastq',
+    'S1,wastewater,influent,2025-08-15,S1_R1.fastq.gz;S1_R2.fastq.gz',
+    'S2,wastewater,influent,2025-08-15,S2.fastq.gz'
+].join('\n');
+
+describe('SampleSheetImport.svelte', () => {
+    it('shows row-level errors and queues only the valid rows', async () => {
+        const onImport = vi.fn();
+        const files = ['S1_R1.fastq.gz', 'S1_R2.fastq.gz'].map((name) => new File(['@r'], name));
+        render(SampleSheetImport, { props: { files, onImport } });
+
+        await fireEvent.change(screen.getByLabelText('Import sample sheet'), {
+            target: { files: [new File([sheet], 'samples.csv', { type: 'text/csv' })] }
+        });
+
+        const queueButton = await screen.findByRole('button', { name: 'Queue 1 sample' });
+        await waitFor(() =>
+            expect(
+                within(screen.getByLabelText('Sample sheet line 3')).getByText(
+                    'S2.fastq.gz was not selected'
+                )
+            ).toBeInTheDocument()
+        );
+        expect(
+            within(screen.getByLabelText('Sample sheet line 2')).getByText('Ready')
+        ).toBeInTheDocument();
+
+        await fireEvent.click(queueButton);
+
+        expect(onImport).toHaveBeenCalledOnce();
+        const [rows] = onImport.mock.calls[0];
+        expect(rows).toHaveLength(1);
+        expect(rows[0].meta.sampleId).toBe('S1');
+        expect(rows[0].files).toEqual(files);
+    });
+
+    it('adds the errors of `validateMeta` to rows that are otherwise ready', async () => {
+        const validateMeta = vi.fn((meta: SampleMeta) =>
+            meta.sampleType === 'isolate' ? [] : ['Sample Type must be one of: isolate']
+        );
+        const files = ['S1_R1.fastq.gz', 'S1_R2.fastq.gz'].map((name) => new File(['@r'], name));
+        render(SampleSheetImport, { props: { files, validateMeta, onImport: vi.fn() } });
+
+        await fireEvent.change(screen.getByLabelText('Import sample sheet'), {
+            target: { files: [new File([sheet], 'samples.csv', { type: 'text/csv' })] }
+        });
+
+        const line2 = await screen.findByLabelText('Sample sheet line 2');
+        expect(within(line2).getByText('Sample Type must be one of: isolate')).toBeInTheDocument();
+        expect(screen.getByRole('button', { name: 'Queue 0 samples' })).toBeDisabled();
+        // Line 3 already fails on its files, so its metadata is not checked
+        expect(validateMeta).not.toHaveBeenCalledWith(expect.objectContaining({ sampleId: 'S2' }));
+    });
+});
@@ -1,9 +1,15 @@
+import type { UploadProgress } from '$lib/uploadProgress';
+
 export interface Upload {
     /** The destination S3 key */
     // key: string;
 
-    /** The state of the upload */
-    state: 'pending' | 'uploading' | 'complete';
+    /**
+     * The state of the upload. Queued uploads wait for a free slot in the
+     * upload queue; paused and failed uploads keep their session and can be
+     * continued.
+     */
+    state: 'pending' | 'queued' | 'uploading' | 'paused' | 'complete' | 'failed' | 'canceled';
 
     /** The number of bytes sent */
     bytesSent: number;
@@ -11,6 +17,15 @@ export interface Upload {
     /** The total number of bytes in the stream */
     totalBytes: number;
 
+    /**
+     * Whether storage confirmed the checksum of the completed upload. False
+     * when storage reported no checksum to compare.
+     */
+    checksumVerified?: boolean;
+
+    /** The throughput, ETA and part states of the running (or last) attempt */
+    progress?: UploadProgress;
+
     /** The abort upload controller */
     controller?: AbortController;
 }
@@ -0,0 +1,149 @@
+import { fireEvent, render, screen, waitFor, within } from '@testing-library/svelte';
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import IncompleteUploads from './IncompleteUploads.svelte';
+import { toaster } from '$lib/toaster';
+import { abortMultipartUpload } from '$lib/mpu';
+import { countUploadParts, listMultipartUploads } from '$lib/storage';
+import { deleteUploadSession, listUploadSessions } from '$lib/uploadSessions';
+import type { UploadSession } from '$lib/uploadSessions';
+
+vi.mock('$lib/toaster', () => ({
+    toaster: {
+        error: vi.fn(),
+        success: vi.fn()
+    }
+}));
+
+vi.mock('$lib/mpu', () => ({
+    abortMultipartUpload: vi.fn()
+}));
+
+vi.mock('$lib/storage', () => ({
+    countUploadParts: vi.fn(),
+    listMultipartUploads: vi.fn()
+}));
+
+vi.mock('$lib/uploadSessions', () => ({
+    deleteUploadSession: vi.fn(),
+    listUploadSessions: vi.fn()
+}));
+
+const HOUR = 60 * 60 * 1000;
+
+const uploads = [
+    {
+        key: 'unprocessed/sample-1.tar',
+        uploadId: 'upload-1',
+        initiated: new Date(Date.now() - 3 * 24 * HOUR).toISOString()
+    },
+    {
+        key: 'unprocessed/sample-2.tar',
+        uploadId: 'upload-2',
+        initiated: new Date(Date.now() - 5 * HOUR).toISOString()
+    }
+];
+
+function renderUploads() {
+    return render(IncompleteUploads, {
+        props: { baseUrl: 'https://api.example.test', bucket: 'example-bucket' }
+    });
+}
+
+describe('IncompleteUploads.svelte', () => {
+    beforeEach(() => {
+        vi.clearAllMocks();
+        vi.mocked(listMultipartUploads).mockResolvedValue(uploads);
+        vi.mocked(countUploadParts).mockImplementation(async ({ uploadId }) =>
+            uploadId === 'upload-1' ? 12 : 1
+        );
+        vi.mocked(abortMultipartUpload).mockResolvedValue();
+        vi.mocked(listUploadSessions).mockResolvedValue([
+            { id: 'session-1', uploadId: 'upload-1' } as UploadSession
+        ]);
+    });
+
+    it('lists incomplete uploads with their age and part count', async () => {
+        renderUploads();
+
+        const row = await screen.findByRole('row', { name: 'unprocessed/sample-1.tar' });
+        expect(within(row).getByText('3 days')).toBeInTheDocument();
+        expect(await within(row).findByText('12')).toBeInTheDocument();
+        const other = screen.getByRole('row', { name: 'unprocessed/sample-2.tar' });
+        expect(within(other).getByText('5 hours')).toBeInTheDocument();
+        expect(listMultipartUploads).toHaveBeenCalledWith({
+            baseUrl: 'https://api.example.test',
+            bucket: 'example-bucket',
+            prefix: '',
+            pageSize: 1000
+        });
+    });
+
+    it('aborts one upload once confirmed and forgets its saved session', async () => {
+        renderUploads();
+
+        await fireEvent.click(
+            await screen.findByRole('button', { name: 'Abort unprocessed/sample-1.tar' })
+        );
+        const dialog = screen.getByRole('dialog', { name: 'Abort 1 upload?' });
+        expect(abortMultipartUpload).not.toHaveBeenCalled();
+        await fireEvent.click(within(dialog).getByRole('button', { name: 'Confirm abort' }));
+
+        await waitFor(() =>
+            expect(toaster.success).toHaveBeenCalledWith({ title: 'Aborted 1 upload.' })
+        );
+        expect(abortMultipartUpload).toHaveBeenCalledExactlyOnceWith('upload-1', {
+            baseUrl: 'https://api.example.test',
+            bucket: 'example-bucket',
+            key: 'unprocessed/sample-1.tar'
+        });
+        expect(deleteUploadSession).toHaveBeenCalledWith('session-1');
+        expect(
+            screen.queryByRole('row', { name: 'unprocessed/sample-1.tar' })
+        ).not.toBeInTheDocument();
+        expect(screen.getByRole('row', { name: 'unprocessed/sample-2.tar' })).toBeInTheDocument();
+        expect(screen.queryByRole('dialog')).not.toBeInTheDocument();
+    });
+
+    it('aborts the selected uploads in bulk and keeps the ones that fail', async () => {
+        vi.mocked(abortMultipartUpload).mockImplementation(async (uploadId) => {
+            if (uploadId === 'upload-2') {
+                throw new Error('Access Denied');
+            }
+        });
+        renderUploads();
+
+        await fireEvent.click(await screen.findByLabelText('Select all incomplete uploads'));
+        await fireEvent.click(screen.getByRole('button', { name: 'Abort selected (2)' }));
+        await fireEvent.click(
+            within(screen.getByRole('dialog', { name: 'Abort 2 uploads?' })).getByRole('button', {
+                name: 'Confirm abort'
+            })
+        );
+
+        await waitFor(() =>
+            expect(toaster.success).toHaveBeenCalledWith({ title: 'Aborted 1 upload.' })
+        );
+        expect(toaster.error).toHaveBeenCalledWith({
+            title: 'An error occurred while aborting the upload of unprocessed/sample-2.tar: Access Denied'
+        });
+        expect(
+            screen.queryByRole('row', { name: 'unprocessed/sample-1.tar' })
+        ).not.toBeInTheDocument();
+        expect(screen.getByLabelText('Select unprocessed/sample-2.tar')).toBeChecked();
+        expect(screen.getByRole('button', { name: 'Abort selected (1)' })).toBeEnabled();
+    });
+
+    it('aborts nothing when the confirmation is canceled', async () => {
+        renderUploads();
+
+        await fireEvent.click(await screen.findByLabelText('Select unprocessed/sample-2.tar'));
+        await fireEvent.click(screen.getByRole('button', { name: 'Abort selected (1)' }));
+        await fireEvent.click(
+            within(screen.getByRole('dialog')).getByRole('button', { name: 'Cancel' })
+        );
+
+        expect(screen.queryByRole('dialog')).not.toBeInTheDocument();
+        expect(abortMultipartUpload).not.toHaveBeenCalled();
+        expect(screen.getAllByRole('row')).toHaveLength(3);
+    });
+});
@@ -0,0 +1,123 @@
+import { fireEvent, render, screen, waitFor, within } from '@testing-library/svelte';
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import StorageBrowser from './StorageBrowser.svelte';
+import { toaster } from '$lib/toaster';
+import { listObjects } from '$lib/storage';
+import type { StorageObject } from '$lib/storage';
+
+vi.mock('$lib/toaster', () => ({
+    toaster: {
+        error: vi.fn(),
+        success: vi.fn()
+    }
+}));
+
+vi.mock('$lib/storage', async (importOriginal) => ({
+    ...(await importOriginal<typeof import('$lib/storage')>()),
+    listObjects: vi.fn()
+}));
+
+function object(key: string): StorageObject {
+    return {
+        key,
+        size: 2048,
+        lastModified: '2025-08-15T12:00:00.000Z',
+        status: key.startsWith('unprocessed/') ? 'unprocessed' : 'processed'
+    };
+}
+
+function renderBrowser() {
+    return render(StorageBrowser, {
+        props: { baseUrl: 'https://api.example.test', bucket: 'example-bucket' }
+    });
+}
+
+describe('StorageBrowser.svelte', () => {
+    beforeEach(() => {
+        vi.clearAllMocks();
+    });
+
+    it('lists objects and pages through continuation tokens', async () => {
+        vi.mocked(listObjects)
+            .mockResolvedValueOnce({
+                objects: [object('unprocessed/sample-1.tar')],
+                continuationToken: 'token-2'
+            })
+            .mockResolvedValueOnce({ objects: [object('unprocessed/sample-2.tar')] });
+        renderBrowser();
+
+        const row = await screen.findByRole('row', { name: 'unprocessed/sample-1.tar' });
+        expect(within(row).getByText('2.0 KB')).toBeInTheDocument();
+        expect(within(row).getByText('unprocessed')).toBeInTheDocument();
+        expect(listObjects).toHaveBeenCalledWith({
+            baseUrl: 'https://api.example.test',
+            bucket: 'example-bucket',
+            prefix: 'unprocessed/',
+            continuationToken: undefined
+        });
+
+        await fireEvent.click(screen.getByRole('button', { name: 'Load more' }));
+
+        await screen.findByRole('row', { name: 'unprocessed/sample-2.tar' });
+        expect(screen.getByRole('row', { name: 'unprocessed/sample-1.tar' })).toBeInTheDocument();
+        expect(listObjects).toHaveBeenLastCalledWith(
+            expect.objectContaining({ continuationToken: 'token-2' })
+        );
+        expect(screen.queryByRole('button', { name: 'Load more' })).not.toBeInTheDocument();
+    });
+
+    it('lists another prefix from its first page', async () => {
+        vi.mocked(listObjects)
+            .mockResolvedValueOnce({ objects: [object('unprocessed/sample-1.tar')] })
+            .mockResolvedValueOnce({ objects: [object('processed/sample-0.tar')] });
+        renderBrowser();
+        await screen.findByRole('row', { name: 'unprocessed/sample-1.tar' });
+
+        await fireEvent.change(screen.getByLabelText('Prefix'), {
+            target: { value: 'processed/' }
+        });
+
+        const row = await screen.findByRole('row', { name: 'processed/sample-0.tar' });
+        expect(within(row).getByText('processed')).toBeInTheDocument();
+        expect(
+            screen.queryByRole('row', { name: 'unprocessed/sample-1.tar' })
+        ).not.toBeInTheDocument();
+        expect(listObjects).toHaveBeenLastCalledWith(
+            expect.objectContaining({ prefix: 'processed/', continuationToken: undefined })
+        );
+    });
+
+    it('copies an object key', async () => {
+        const writeText = vi.fn().mockResolvedValue(undefined);
+        Object.defineProperty(navigator, 'clipboard', { value: { writeText }, configurable: true });
+        vi.mocked(listObjects).mockResolvedValue({ objects: [object('unprocessed/sample-1.tar')] });
+        renderBrowser();
+
+        await fireEvent.click(
+            await screen.findByRole('button', { name: 'Copy unprocessed/sample-1.tar' })
+        );
+
+        expect(writeText).toHaveBeenCalledWith('unprocessed/sample-1.tar');
+        await waitFor(() =>
+            expect(toaster.success).toHaveBeenCalledWith({
+                title: 'Copied unprocessed/sample-1.tar.'
+            })
+        );
+    });
+
+    it('reports a failed listing and retries it', async () => {
+        vi.mocked(listObjects)
+            .mockRejectedValueOnce(new Error('Network Error'))
+            .mockResolvedValueOnce({ objects: [] });
+        renderBrowser();
+
+        expect(await screen.findByRole('alert')).toHaveTextContent(
+            'The objects under unprocessed/ could not be listed: Network Error'
+        );
+
+        await fireEvent.click(screen.getByRole('button', { name: 'Retry' }));
+
+        expect(await screen.findByText('No objects under unprocessed/')).toBeInTheDocument();
+        expect(screen.queryByRole('alert')).not.toBeInTheDocument();
+    });
+});
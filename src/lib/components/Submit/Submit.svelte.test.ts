@@ -1,7 +1,8 @@
 import { fireEvent, render, screen, waitFor } from '@testing-library/svelte';
 import { beforeEach, describe, expect, it, vi } from 'vitest';
-import { getWorkflows, getWorkflowProfiles } from '$lib/pipeline';
+import { getWorkflows, getWorkflowProfiles, rememberSampleWorkflow } from '$lib/pipeline';
 import type { PipelineProfile, WorkflowDAG } from '$lib/pipeline';
+import type { ParameterFieldSet, ParameterGroup } from '$lib/schema';
 import Submit from './Submit.svelte';
 import { capi } from '$lib/apiClient';
 
@@ -9,113 +10,89 @@ vi.mock('$lib/apiClient', () => ({
     capi: { get: vi.fn(), post: vi.fn(), patch: vi.fn() }
 }));
 
-vi.mock('$lib/pipeline', () => ({
-    getWorkflows: vi.fn(),
-    getWorkflowProfiles: vi.fn()
-}));
-
-vi.mock('$lib/schema', () => ({
-    getParameterFields: vi.fn(async (schema: Record<string, unknown>) => {
-        const required = Array.isArray(schema.required) ? schema.required : [];
-        const properties = (schema.properties ?? {}) as Record<string, Record<string, unknown>>;
-
-        return Object.entries(properties).map(([key, property]) => ({
-            key,
-            label: typeof property.title === 'string' ? property.title : key,
-            schema: property,
-            required: required.includes(key),
-            readonly: 'const' in property
-        }));
-    }),
-    getDefaultOptions: vi.fn((fields) =>
-        Object.fromEntries(
-            fields.map((field: { key: string; schema: Record<string, unknown> }) => {
-                if ('default' in field.schema) {
-                    return [field.key, field.schema.default];
-                }
-
-                if ('const' in field.schema) {
-                    return [field.key, field.schema.const];
-                }
-
-                if (field.schema.type === 'boolean') {
-                    return [field.key, false];
-                }
-
-                return [field.key, ''];
-            })
-        )
-    ),
-    coerceOptionsForValidation: vi.fn(
-        (
-            fields: Array<{ key: string; readonly: boolean; schema: Record<string, unknown> }>,
-            options: Record<string, unknown>
-        ) => {
-            const fieldsByKey = new Map(fields.map((field) => [field.key, field]));
-
-            return Object.fromEntries(
-                Object.entries(options).flatMap(([key, value]) => {
-                    const field = fieldsByKey.get(key);
-                    if (value === '' || value === null || value === undefined) {
-                        return [];
-                    }
-
-                    if (!field || field.readonly) {
-                        return [[key, value]];
-                    }
+vi.mock('$lib/pipeline', async (importOriginal) => {
+    const { getSampleOptions, triggerWorkflow } =
+        await importOriginal<typeof import('$lib/pipeline')>();
+    return {
+        getSampleOptions,
+        triggerWorkflow,
+        getWorkflows: vi.fn(),
+        getWorkflowProfiles: vi.fn(),
+        rememberSampleWorkflow: vi.fn()
+    };
+});
 
-                    if (field.schema.type === 'integer') {
-                        return [[key, Number(value)]];
-                    }
+vi.mock('$lib/schema', async (importOriginal) => {
+    const actual = await importOriginal<typeof import('$lib/schema')>();
 
-                    return [[key, value]];
+    // Skips the ref parser, whose dynamic import outlasts the tests' waits:
+    // top-level properties, inline allOf groups, oneOf branches and if/then/else only
+    function toFieldSet(schema: Record<string, unknown>, path: string): ParameterFieldSet {
+        const required = Array.isArray(schema.required) ? schema.required : [];
+        const parts = (schema.allOf ?? []) as Array<Record<string, unknown>>;
+        const branches = (schema.oneOf ?? []) as Array<Record<string, unknown>>;
+        const toFields = (part: Record<string, unknown>, group?: ParameterGroup) =>
+            Object.entries((part.properties ?? {}) as Record<string, Record<string, unknown>>).map(
+                ([key, property]) => ({
+                    key,
+                    label: typeof property.title === 'string' ? property.title : key,
+                    schema: property,
+                    required: required.includes(key),
+                    readonly: 'const' in property,
+                    ...(group ? { group } : {})
                 })
             );
-        }
-    ),
-    compile: vi.fn(
-        (schema: { required?: string[]; properties?: Record<string, { type?: string }> }) => {
-            const validator = ((data: Record<string, unknown>) => {
-                const errors: Array<{
-                    instancePath: string;
-                    keyword: string;
-                    message?: string;
-                    params?: Record<string, unknown>;
-                }> = [];
-
-                for (const key of schema.required ?? []) {
-                    if (!(key in data)) {
-                        errors.push({
-                            instancePath: '',
-                            keyword: 'required',
-                            params: { missingProperty: key }
-                        });
-                    }
-                }
-
-                for (const [key, property] of Object.entries(schema.properties ?? {})) {
-                    if (
-                        property.type === 'integer' &&
-                        key in data &&
-                        !Number.isInteger(data[key])
-                    ) {
-                        errors.push({
-                            instancePath: `/${key}`,
-                            keyword: 'type',
-                            params: { type: 'integer' }
-                        });
-                    }
-                }
 
-                validator.errors = errors;
-                return errors.length === 0;
-            }) as ((data: Record<string, unknown>) => boolean) & { errors?: unknown[] };
+        return {
+            fields: [
+                ...parts.flatMap((part, index) =>
+                    toFields(part, {
+                        key: `${path}allOf/${index}`,
+                        title: String(part.title),
+                        description: part.description as string | undefined
+                    })
+                ),
+                ...toFields(schema)
+            ],
+            required,
+            variantGroups: branches.length
+                ? [
+                      {
+                          key: `${path}oneOf`,
+                          keyword: 'oneOf' as const,
+                          label: 'Parameter set',
+                          variants: branches.map((branch, index) => ({
+                              title: String(branch.title),
+                              ...toFieldSet(branch, `${path}oneOf/${index}/`)
+                          }))
+                      }
+                  ]
+                : [],
+            conditions: schema.if
+                ? [
+                      {
+                          key: `${path}if`,
+                          test: { schema: schema.if as object },
+                          then: schema.then
+                              ? toFieldSet(schema.then as Record<string, unknown>, `${path}then/`)
+                              : undefined,
+                          else: schema.else
+                              ? toFieldSet(schema.else as Record<string, unknown>, `${path}else/`)
+                              : undefined
+                      }
+                  ]
+                : []
+        };
+    }
 
-            validator.errors = [];
-            return validator;
-        }
-    )
-}));
+    return {
+        ...actual,
+        getParameterForm: vi.fn(async (schema: Record<string, unknown>) => ({
+            schema,
+            ...toFieldSet(schema, '')
+        }))
+    };
+});
 
 const mockWorkflows: WorkflowDAG[] = [
     {
@@ -196,6 +173,81 @@ describe('Submit.svelte', () => {
         expect(await screen.findByLabelText('Parameter 1')).toBeInTheDocument();
     });
 
+    it('preselects a workflow and fills in the uploaded sample', async () => {
+        vi.mocked(capi.post).mockResolvedValue({
+            data: { dag_id: 'test-workflow', dag_run_id: 'run-1' }
+        });
+        vi.mocked(getWorkflowProfiles).mockResolvedValue([
+            createProfile({
+                parametersSchema: {
+                    type: 'object',
+                    properties: {
+                        input: { type: 'string', title: 'Input' },
+                        sample_id: { type: 'string', title: 'Sample ID' }
+                    }
+                },
+                sampleInputs: { uri: 'input', sampleId: 'sample_id', key: 'missing' }
+            })
+        ]);
+
+        render(Submit, {
+            props: {
+                baseUrl: 'https://api.example.test',
+                sample: {
+                    bucket: 'example-bucket',
+                    key: 'unprocessed/sample-1.tar',
+                    sampleId: 'sample-1'
+                },
+                initialDagId: 'test-workflow'
+            }
+        });
+
+        await waitFor(() =>
+            expect(screen.getByLabelText('Select workflow')).toHaveValue('test-workflow')
+        );
+        expect(await screen.findByLabelText('Input')).toHaveValue(
+            's3://example-bucket/unprocessed/sample-1.tar'
+        );
+        expect(screen.getByLabelText('Sample ID')).toHaveValue('sample-1');
+        expect(screen.getByLabelText('Uploaded sample')).toHaveTextContent(
+            'Running on sample sample-1 (unprocessed/sample-1.tar).'
+        );
+
+        await fireEvent.click(screen.getByRole('button', { name: 'Submit Workflow' }));
+
+        await waitFor(() => expect(capi.post).toHaveBeenCalledOnce());
+        const [, payload] = vi.mocked(capi.post).mock.calls[0] as [
+            string,
+            { pipelineConfigs: Array<{ nextflowOptions: Record<string, unknown> }> }
+        ];
+        expect(payload.pipelineConfigs[0].nextflowOptions).toEqual({
+            input: 's3://example-bucket/unprocessed/sample-1.tar',
+            sample_id: 'sample-1'
+        });
+        expect(rememberSampleWorkflow).toHaveBeenCalledWith('test-workflow');
+    });
+
+    it('notes when no stage takes the uploaded sample', async () => {
+        vi.mocked(getWorkflowProfiles).mockResolvedValue([createProfile()]);
+
+        render(Submit, {
+            props: {
+                baseUrl: 'https://api.example.test',
+                sample: {
+                    bucket: 'example-bucket',
+                    key: 'unprocessed/sample-1.tar',
+                    sampleId: 'sample-1'
+                },
+                initialDagId: 'test-workflow'
+            }
+        });
+
+        expect(await screen.findByLabelText('Parameter 1')).toHaveValue('');
+        expect(screen.getByLabelText('Uploaded sample')).toHaveTextContent(
+            'No stage of this workflow declares a sample input'
+        );
+    });
+
     it('keeps submit disabled until profiles are loaded', async () => {
         render(Submit, {
             props: {
@@ -277,6 +329,369 @@ describe('Submit.svelte', () => {
         axiosPostSpy.mockRestore();
     });
 
+    it('swaps the fields of a oneOf variant and keeps only its options', async () => {
+        await renderSelectedSubmit([
+            createProfile({
+                parametersSchema: {
+                    type: 'object',
+                    properties: { '--outdir': { type: 'string', default: 'results' } },
+                    oneOf: [
+                        {
+                            title: 'Built-in genome',
+                            properties: { '--genome': { type: 'string', default: 'GRCh38' } }
+                        },
+                        {
+                            title: 'Custom reference',
+                            required: ['--fasta'],
+                            properties: { '--fasta': { type: 'string', title: 'FASTA' } }
+                        }
+                    ]
+                }
+            })
+        ]);
+
+        const chooser = await screen.findByLabelText('Parameter set');
+        const preview = screen.getByLabelText('Submission JSON preview') as HTMLTextAreaElement;
+        expect(screen.getByLabelText('--genome')).toHaveValue('GRCh38');
+        expect(screen.queryByLabelText('FASTA')).not.toBeInTheDocument();
+
+        await fireEvent.change(chooser, { target: { value: '1' } });
+
+        expect(screen.queryByLabelText('--genome')).not.toBeInTheDocument();
+        expect(screen.getByLabelText('FASTA')).toBeRequired();
+        expect(JSON.parse(preview.value)[0].nextflowOptions).toEqual({
+            '--outdir': 'results',
+            '--fasta': ''
+        });
+    });
+
+    it('validates the chosen variant of a schema with an $id on every submit', async () => {
+        vi.mocked(capi.post).mockResolvedValue({ data: {} });
+        await renderSelectedSubmit([
+            createProfile({
+                parametersSchema: {
+                    $schema: 'http://json-schema.org/draft-07/schema',
+                    $id: 'https://raw.githubusercontent.com/nf-core/test/master/nextflow_schema.json',
+                    type: 'object',
+                    properties: { '--outdir': { type: 'string', default: 'results' } },
+                    oneOf: [
+                        {
+                            title: 'Built-in genome',
+                            properties: { '--genome': { type: 'string', default: 'GRCh38' } }
+                        },
+                        {
+                            title: 'Custom reference',
+                            required: ['--fasta'],
+                            properties: { '--fasta': { type: 'string', title: 'FASTA' } }
+                        }
+                    ]
+                }
+            })
+        ]);
+
+        await fireEvent.change(await screen.findByLabelText('Parameter set'), {
+            target: { value: '1' }
+        });
+        await fireEvent.click(screen.getByRole('button', { name: 'Submit Workflow' }));
+        expect(await screen.findByText('--fasta is required')).toBeInTheDocument();
+
+        await fireEvent.input(screen.getByLabelText('FASTA'), {
+            target: { value: 's3://cape-refs/genome.fa' }
+        });
+        await fireEvent.click(screen.getByRole('button', { name: 'Submit Workflow' }));
+
+        await waitFor(() => expect(capi.post).toHaveBeenCalledOnce());
+    });
+
+    it('edits list and nested object parameters and validates their items', async () => {
+        await renderSelectedSubmit([
+            createProfile({
+                parametersSchema: {
+                    type: 'object',
+                    properties: {
+                        '--adapters': {
+                            type: 'array',
+                            title: 'Adapters',
+                            items: { type: 'string', title: 'Adapter' },
+                            maxItems: 2
+                        },
+                        '--resources': {
+                            type: 'object',
+                            title: 'Resources',
+                            required: ['cpus'],
+                            properties: { cpus: { type: 'integer' }, queue: { type: 'string' } }
+                        }
+                    }
+                }
+            })
+        ]);
+
+        const addAdapter = await screen.findByRole('button', { name: 'Add Adapter' });
+        await fireEvent.click(addAdapter);
+        await fireEvent.click(addAdapter);
+        expect(addAdapter).toBeDisabled();
+
+        await fireEvent.input(screen.getByLabelText('Adapter 1'), {
+            target: { value: 'AGATCGGAAGAGC' }
+        });
+        await fireEvent.input(screen.getByLabelText('Adapter 2'), {
+            target: { value: 'CTGTCTCTTATA' }
+        });
+        await fireEvent.click(screen.getByRole('button', { name: 'Remove Adapter 1' }));
+        await fireEvent.input(screen.getByLabelText('cpus'), { target: { value: 'eight' } });
+
+        const preview = screen.getByLabelText('Submission JSON preview') as HTMLTextAreaElement;
+        expect(JSON.parse(preview.value)[0].nextflowOptions).toEqual({
+            '--adapters': ['CTGTCTCTTATA'],
+            '--resources': { cpus: 'eight', queue: '' }
+        });
+        expect(screen.getByRole('group', { name: 'Resources' })).toBeInTheDocument();
+
+        await fireEvent.click(screen.getByRole('button', { name: 'Submit Workflow' }));
+
+        expect(await screen.findByText('cpus: Must be integer')).toBeInTheDocument();
+        expect(capi.post).not.toHaveBeenCalled();
+    });
+
+    it('picks widgets by format and names the field in string errors', async () => {
+        await renderSelectedSubmit([
+            createProfile({
+                parametersSchema: {
+                    type: 'object',
+                    properties: {
+                        '--run_date': { type: 'string', title: 'Run date', format: 'date' },
+                        '--started': { type: 'string', title: 'Started', format: 'date-time' },
+                        '--contact': { type: 'string', title: 'Contact', format: 'email' },
+                        '--outdir': { type: 'string', title: 'Output', format: 'directory-path' },
+                        '--prefix': {
+                            type: 'string',
+                            title: 'Prefix',
+                            pattern: '^[a-z]+$',
+                            maxLength: 4
+                        },
+                        '--notes': { type: 'string', title: 'Notes', maxLength: 5000 }
+                    }
+                }
+            })
+        ]);
+
+        expect(await screen.findByLabelText('Run date')).toHaveAttribute('type', 'date');
+        expect(screen.getByLabelText('Started')).toHaveAttribute('type', 'datetime-local');
+        expect(screen.getByLabelText('Contact')).toHaveAttribute('type', 'email');
+        expect(screen.getByLabelText('Notes').tagName).toBe('TEXTAREA');
+
+        await fireEvent.input(screen.getByLabelText('Started'), {
+            target: { value: '2025-08-15T09:30' }
+        });
+        await fireEvent.input(screen.getByLabelText('Output'), {
+            target: { value: '/data/results' }
+        });
+        await fireEvent.input(screen.getByLabelText('Prefix'), { target: { value: 'Run' } });
+
+        const preview = screen.getByLabelText('Submission JSON preview') as HTMLTextAreaElement;
+        expect(JSON.parse(preview.value)[0].nextflowOptions['--started']).toBe(
+            '2025-08-15T09:30:00Z'
+        );
+
+        await fireEvent.click(screen.getByRole('button', { name: 'Submit Workflow' }));
+
+        expect(
+            await screen.findByText('Output must be a path starting with s3:// or https://')
+        ).toBeInTheDocument();
+        expect(screen.getByText('Prefix must match the pattern ^[a-z]+$')).toBeInTheDocument();
+        expect(capi.post).not.toHaveBeenCalled();
+    });
+
+    it('shows date-time values in UTC and keeps their seconds', async () => {
+        await renderSelectedSubmit([
+            createProfile({
+                parametersSchema: {
+                    type: 'object',
+                    properties: {
+                        '--started': {
+                            type: 'string',
+                            title: 'Started',
+                            format: 'date-time',
+                            default: '2024-01-01T10:00:00+02:00'
+                        },
+                        '--finished': {
+                            type: 'string',
+                            title: 'Finished',
+                            format: 'date-time',
+                            default: '2024-01-01T12:34:56Z'
+                        }
+                    }
+                }
+            })
+        ]);
+
+        expect(await screen.findByLabelText('Started')).toHaveValue('2024-01-01T08:00');
+        // jsdom writes out the milliseconds that browsers leave off
+        expect((screen.getByLabelText('Finished') as HTMLInputElement).value).toMatch(
+            /^2024-01-01T12:34:56(\.000)?$/
+        );
+
+        await fireEvent.input(screen.getByLabelText('Finished'), {
+            target: { value: '2024-01-01T13:34:56' }
+        });
+
+        const preview = screen.getByLabelText('Submission JSON preview') as HTMLTextAreaElement;
+        expect(JSON.parse(preview.value)[0].nextflowOptions).toMatchObject({
+            '--started': '2024-01-01T10:00:00+02:00',
+            '--finished': expect.stringMatching(/^2024-01-01T13:34:56(\.000)?Z$/)
+        });
+    });
+
+    it('shows nf-core parameter groups, help text and advanced parameters on request', async () => {
+        await renderSelectedSubmit([
+            createProfile({
+                parametersSchema: {
+                    type: 'object',
+                    // The dereferenced `definitions` of an nf-core schema
+                    allOf: [
+                        {
+                            title: 'Input/output options',
+                            description: 'Where the data comes from',
+                            type: 'object',
+                            properties: {
+                                '--input': {
+                                    type: 'string',
+                                    title: 'Input',
+                                    help_text: 'A CSV sample sheet with one row per sample.'
+                                }
+                            }
+                        },
+                        {
+                            title: 'Generic options',
+                            type: 'object',
+                            properties: {
+                                '--publish_dir_mode': {
+                                    type: 'string',
+                                    title: 'Publish mode',
+                                    hidden: true
+                                }
+                            }
+                        }
+                    ]
+                }
+            })
+        ]);
+
+        expect(await screen.findByText('Input/output options')).toBeInTheDocument();
+        expect(screen.getByText('Where the data comes from')).toBeInTheDocument();
+        expect(screen.getByText('A CSV sample sheet with one row per sample.')).toBeInTheDocument();
+        expect(screen.queryByLabelText('Publish mode')).not.toBeInTheDocument();
+        expect(screen.queryByText('Generic options')).not.toBeInTheDocument();
+
+        await fireEvent.click(screen.getByLabelText('Show advanced parameters (1)'));
+
+        expect(await screen.findByText('Generic options')).toBeInTheDocument();
+        expect(screen.getByLabelText('Publish mode')).toBeInTheDocument();
+    });
+
+    it('lays out the fields of a stage with its UI schema and rules', async () => {
+        await renderSelectedSubmit([
+            createProfile({
+                parametersSchema: {
+                    type: 'object',
+                    properties: {
+                        '--run_kraken': { type: 'boolean', title: 'Run Kraken', default: false },
+                        '--kraken_db': { type: 'string', title: 'Kraken database' },
+                        '--mode': { type: 'string', title: 'Mode', enum: ['fast', 'full'] },
+                        '--notes': { type: 'string', title: 'Notes' },
+                        '--outdir': { type: 'string', title: 'Output directory' }
+                    }
+                },
+                uiSchema: {
+                    type: 'VerticalLayout',
+                    elements: [
+                        {
+                            type: 'Group',
+                            label: 'Classification',
+                            elements: [
+                                { type: 'Control', scope: '#/properties/--run_kraken' },
+                                {
+                                    type: 'Control',
+                                    scope: '#/properties/--kraken_db',
+                                    rule: {
+                                        effect: 'SHOW',
+                                        condition: {
+                                            scope: '#/properties/--run_kraken',
+                                            schema: { const: true }
+                                        }
+                                    }
+                                }
+                            ]
+                        },
+                        {
+                            type: 'Control',
+                            scope: '#/properties/--mode',
+                            options: { format: 'radio' }
+                        },
+                        {
+                            type: 'Control',
+                            scope: '#/properties/--notes',
+                            options: { multi: true, readonly: true }
+                        }
+                    ]
+                }
+            })
+        ]);
+
+        expect(await screen.findByRole('group', { name: 'Classification' })).toBeInTheDocument();
+        expect(screen.queryByLabelText('Kraken database')).not.toBeInTheDocument();
+        expect(screen.getByRole('radio', { name: 'full' })).toBeInTheDocument();
+        expect(screen.getByLabelText('Notes').tagName).toBe('TEXTAREA');
+        expect(screen.getByLabelText('Notes')).toBeDisabled();
+        expect(screen.getByRole('group', { name: 'Other parameters' })).toContainElement(
+            screen.getByLabelText('Output directory')
+        );
+
+        await fireEvent.click(screen.getByLabelText('Run Kraken'));
+        expect(await screen.findByLabelText('Kraken database')).toBeInTheDocument();
+    });
+
+    it('shows and requires conditional parameters only while their condition holds', async () => {
+        await renderSelectedSubmit([
+            createProfile({
+                parametersSchema: {
+                    type: 'object',
+                    properties: {
+                        '--run_kraken': { type: 'boolean', title: 'Run Kraken', default: false }
+                    },
+                    if: {
+                        properties: { '--run_kraken': { const: true } },
+                        required: ['--run_kraken']
+                    },
+                    then: {
+                        required: ['--kraken2_db'],
+                        properties: {
+                            '--kraken2_db': { type: 'string', title: 'Kraken2 database' }
+                        }
+                    }
+                }
+            })
+        ]);
+
+        const runKraken = await screen.findByLabelText('Run Kraken');
+        expect(screen.queryByLabelText('Kraken2 database')).not.toBeInTheDocument();
+
+        await fireEvent.click(runKraken);
+        expect(await screen.findByText('Kraken2 database *')).toBeInTheDocument();
+
+        await fireEvent.click(screen.getByRole('button', { name: 'Submit Workflow' }));
+        expect(await screen.findByText('--kraken2_db is required')).toBeInTheDocument();
+
+        await fireEvent.input(screen.getByLabelText('Kraken2 database'), {
+            target: { value: 's3://cape-refs/kraken2/standard' }
+        });
+        await fireEvent.click(runKraken);
+        expect(screen.queryByLabelText('Kraken2 database')).not.toBeInTheDocument();
+
+        const preview = screen.getByLabelText('Submission JSON preview') as HTMLTextAreaElement;
+        expect(JSON.parse(preview.value)[0].nextflowOptions).toEqual({ '--run_kraken': false });
+    });
+
     it('shows a submitting state and prevents duplicate workflow trigger requests', async () => {
         const pendingSubmission = createDeferred<{
             data: { dag_id: string; dag_run_id: string };
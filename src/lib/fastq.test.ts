@@ -0,0 +1,93 @@
+import { describe, expect, it } from 'vitest';
+import { gzipSync } from 'node:zlib';
+import { getPairingWarnings, getReadMate, inspectFastq } from './fastq';
+
+const records = (n: number) =>
+    Array.from({ length: n }, (_, i) => `@read${i}\nACGTN\n+\nIIIII\n`).join('');
+
+function fastqGz(name: string, text: string): File {
+    return new File([gzipSync(text)], name);
+}
+
+describe('inspectFastq', () => {
+    it('accepts gzip and plain FASTQ files', async () => {
+        await expect(inspectFastq(fastqGz('a.fastq.gz', records(10)))).resolves.toEqual({
+            name: 'a.fastq.gz',
+            isGzip: true,
+            records: 4,
+            errors: [],
+            warnings: []
+        });
+        await expect(inspectFastq(new File([records(2)], 'a.fastq'))).resolves.toMatchObject({
+            isGzip: false,
+            records: 2,
+            errors: []
+        });
+    });
+
+    it('rejects .gz files that are not gzip compressed', async () => {
+        const inspection = await inspectFastq(new File([records(1)], 'a.fastq.gz'));
+        expect(inspection.errors).toEqual(['The file is named .gz but is not gzip compressed']);
+    });
+
+    it('warns about gzip files without a .gz name', async () => {
+        const inspection = await inspectFastq(fastqGz('a.fastq', records(1)));
+        expect(inspection.errors).toEqual([]);
+        expect(inspection.warnings).toEqual(['The file is gzip compressed but not named .gz']);
+    });
+
+    it('reports malformed records', async () => {
+        const check = async (text: string) =>
+            (await inspectFastq(fastqGz('a.fastq.gz', text))).errors;
+
+        expect(await check('>read0\nACGT\n')).toEqual(['Record 1 does not start with "@"']);
+        expect(await check('@read0\nACGT\n-\nIIII\n')).toEqual([
+            'Record 1 has no "+" separator line'
+        ]);
+        expect(await check(records(1) + '@read1\nACGT\n+\nIII\n')).toEqual([
+            'Record 2 has 4 bases but 3 quality scores'
+        ]);
+        expect(await check(records(2) + '@read2\nAC')).toEqual([
+            'The file ends in the middle of a record (truncated?)'
+        ]);
+        expect(await check('')).toEqual(['The file is empty']);
+    });
+
+    it('reports corrupt gzip data', async () => {
+        const bytes = gzipSync(records(100)).subarray(0, 40);
+        const inspection = await inspectFastq(new File([bytes], 'a.fastq.gz'));
+        expect(inspection.errors[0]).toMatch(/^The file could not be read/);
+    });
+});
+
+describe('getReadMate', () => {
+    it('recognizes Illumina and short mate names', () => {
+        expect(getReadMate('S1_S1_L001_R1_001.fastq.gz')).toEqual({
+            pairKey: 'S1_S1_L001_R#_001.fastq',
+            mate: 1
+        });
+        expect(getReadMate('S1_S1_L001_R2_001.fastq.gz')?.mate).toBe(2);
+        expect(getReadMate('SRR123_2.fq.gz')).toEqual({ pairKey: 'SRR123_#.fq', mate: 2 });
+        expect(getReadMate('nanopore.fastq.gz')).toBeUndefined();
+    });
+});
+
+describe('getPairingWarnings', () => {
+    it('warns about unpaired and duplicated mates', () => {
+        const warnings = getPairingWarnings([
+            'a_R1_001.fastq.gz',
+            'a_R2_001.fastq.gz',
+            'b_1.fastq.gz',
+            'c_1.fastq.gz',
+            'c_1.fastq',
+            'c_2.fastq.gz',
+            'single.fastq.gz'
+        ]);
+
+        expect(Object.fromEntries(warnings)).toEqual({
+            'b_1.fastq.gz': ['No read 2 mate was selected'],
+            'c_1.fastq.gz': ['Read 1 is duplicated by c_1.fastq'],
+            'c_1.fastq': ['Read 1 is duplicated by c_1.fastq.gz']
+        });
+    });
+});
@@ -0,0 +1,254 @@
+import type { FileInspection } from '$lib/fileTypes';
+
+/**
+ * Pre-flight checks for FASTQ files, run before anything is uploaded so that
+ * truncated, mislabeled or non-FASTQ files are caught in the browser instead
+ * of failing hours later in the pipeline.
+ *
+ * Only the start of each file is read: enough to check the gzip header and
+ * the first few records.
+ */
+export interface FastqInspection extends FileInspection {
+    /** Whether the file starts with the gzip magic bytes */
+    isGzip: boolean;
+    /** How many complete records were checked */
+    records: number;
+}
+
+export interface InspectFastqOptions {
+    /** How many records to check */
+    maxRecords?: number;
+    /** Stop reading after this many (decompressed) bytes */
+    maxBytes?: number;
+}
+
+export const DEFAULT_INSPECT_RECORDS = 4;
+
+export const DEFAULT_INSPECT_BYTES = 256 * 1024;
+export const GZIP_MAGIC = [0x1f, 0x8b];
+
+/**
+ * Read whole lines from the start of a byte stream.
+ *
+ * @returns the lines read, and whether the stream ended before the limits
+ */
+export async function readHeadLines(
+    stream: ReadableStream<Uint8Array>,
+    maxLines: number,
+    maxBytes: number
+): Promise<{ lines: string[]; isComplete: boolean }> {
+    const reader = stream.getReader();
+    const decoder = new TextDecoder();
+    let text = '';
+    let bytes = 0;
+    let isComplete = false;
+
+    try {
+        while (bytes < maxBytes && text.split('\n').length <= maxLines) {
+            const { done, value } = await reader.read();
+            if (done) {
+                text += decoder.decode();
+                isComplete = true;
+                break;
+            }
+            bytes += value.byteLength;
+            text += decoder.decode(value, { stream: true });
+        }
+    } finally {
+        reader.cancel().catch(() => {});
+    }
+
+    const lines = text.split(/\r?\n/);
+    if (isComplete) {
+        // A trailing newline leaves an empty last line
+        if (lines.at(-1) === '') lines.pop();
+    } else {
+        // The last line may have been cut by the read limit
+        lines.pop();
+    }
+    return { lines: lines.slice(0, maxLines), isComplete };
+}
+
+/**
+ * Check the records of a FASTQ file: `@` header, sequence, `+` separator and
+ * a quality line as long as the sequence.
+ */
+function checkRecords(
+    lines: string[],
+    isComplete: boolean,
+    maxRecords: number,
+    inspection: FastqInspection
+) {
+    if (lines.length === 0) {
+        inspection.errors.push('The file is empty');
+        return;
+    }
+
+    for (let i = 0; i < lines.length && inspection.records < maxRecords; i += 4) {
+        const [header, sequence, separator, quality] = lines.slice(i, i + 4);
+        const record = inspection.records + 1;
+
+        if (!header.startsWith('@')) {
+            inspection.errors.push(`Record ${record} does not start with "@"`);
+            return;
+        }
+        if (quality === undefined) {
+            // The whole file was read, so a partial record means it was cut short
+            if (isComplete) {
+                inspection.errors.push('The file ends in the middle of a record (truncated?)');
+            }
+            return;
+        }
+        if (!separator.startsWith('+')) {
+            inspection.errors.push(`Record ${record} has no "+" separator line`);
+            return;
+        }
+        if (sequence.length !== quality.length) {
+            inspection.errors.push(
+                `Record ${record} has ${sequence.length} bases but ${quality.length} quality scores`
+            );
+            return;
+        }
+        inspection.records += 1;
+    }
+}
+
+/**
+ * Inspect the start of a FASTQ file.
+ *
+ * Checks that `.gz` files are really gzip compressed (and plain files are
+ * not), then decompresses and checks the first records.
+ *
+ * @param file - the file to inspect
+ * @param options - how much of the file to read
+ */
+export async function inspectFastq(
+    file: File,
+    options: InspectFastqOptions = {}
+): Promise<FastqInspection> {
+    const maxRecords = options.maxRecords ?? DEFAULT_INSPECT_RECORDS;
+    const maxBytes = options.maxBytes ?? DEFAULT_INSPECT_BYTES;
+
+    const magic = new Uint8Array(await file.slice(0, GZIP_MAGIC.length).arrayBuffer());
+    const isGzip = GZIP_MAGIC.every((b, i) => magic[i] === b);
+    const inspection: FastqInspection = {
+        name: file.name,
+        isGzip,
+        records: 0,
+        errors: [],
+        warnings: []
+    };
+
+    const isNamedGzip = file.name.endsWith('.gz');
+    if (isNamedGzip && !isGzip) {
+        inspection.errors.push('The file is named .gz but is not gzip compressed');
+        return inspection;
+    }
+    if (!isNamedGzip && isGzip) {
+        inspection.warnings.push('The file is gzip compressed but not named .gz');
+    }
+
+    let stream = file.stream() as ReadableStream<Uint8Array>;
+    if (isGzip) {
+        stream = stream.pipeThrough(
+            new DecompressionStream('gzip') as unknown as ReadableWritablePair<
+                Uint8Array,
+                Uint8Array
+            >
+        );
+    }
+
+    try {
+        const { lines, isComplete } = await readHeadLines(stream, maxRecords * 4, maxBytes);
+        checkRecords(lines, isComplete, maxRecords, inspection);
+    } catch (err) {
+        const message = err instanceof Error ? err.message : String(err);
+        inspection.errors.push(`The file could not be read: ${message}`);
+    }
+
+    return inspection;
+}
+
+export interface ReadMate {
+    /** The name shared by both mates, e.g. `S1_L001_R#_001.fastq` for Illumina */
+    pairKey: string;
+    mate: 1 | 2;
+}
+
+/** Illumina `_R1_`/`_R2_` naming, e.g. `S1_S1_L001_R1_001.fastq.gz` */
+const ILLUMINA_MATE = /^(.*)_R([12])(_\d+)?(\.f(?:ast)?q(?:\.gz)?)$/;
+/** Short `_1`/`_2` naming, e.g. `SRR123_1.fastq.gz` */
+const SHORT_MATE = /^(.*)_([12])(\.f(?:ast)?q(?:\.gz)?)$/;
+
+// Compression does not matter for pairing: a.fastq and a.fastq.gz are the same reads
+function stripGz(extension: string): string {
+    return extension.replace(/\.gz$/, '');
+}
+
+/**
+ * Parse which mate of a paired-end read set a file holds, from its name.
+ *
+ * @param name - the file name
+ * @returns the mate, or undefined for single-end file names
+ */
+export function getReadMate(name: string): ReadMate | undefined {
+    const illumina = ILLUMINA_MATE.exec(name);
+    if (illumina) {
+        const [, prefix, mate, suffix = '', extension] = illumina;
+        return {
+            pairKey: `${prefix}_R#${suffix}${stripGz(extension)}`,
+            mate: Number(mate) as 1 | 2
+        };
+    }
+
+    const short = SHORT_MATE.exec(name);
+    if (short) {
+        const [, prefix, mate, extension] = short;
+        return { pairKey: `${prefix}_#${stripGz(extension)}`, mate: Number(mate) as 1 | 2 };
+    }
+    return undefined;
+}
+
+/**
+ * Find paired-end files without a mate, or with more than one file for the
+ * same mate.
+ *
+ * @param names - the selected file names
+ * @returns warnings per file name
+ */
+export function getPairingWarnings(names: string[]): Map<string, string[]> {
+    const pairs = new Map<string, { 1: string[]; 2: string[] }>();
+    for (const name of names) {
+        const mate = getReadMate(name);
+        if (!mate) continue;
+
+        const pair = pairs.get(mate.pairKey) ?? { 1: [], 2: [] };
+        pair[mate.mate].push(name);
+        pairs.set(mate.pairKey, pair);
+    }
+
+    const warnings = new Map<string, string[]>();
+    const warn = (name: string, warning: string) =>
+        warnings.set(name, [...(warnings.get(name) ?? []), warning]);
+
+    for (const pair of pairs.values()) {
+        for (const mate of [1, 2] as const) {
+            const other = mate === 1 ? 2 : 1;
+            const files = pair[mate];
+            if (files.length > 1) {
+                for (const name of files) {
+                    warn(
+                        name,
+                        `Read ${mate} is duplicated by ${files.filter((f) => f !== name).join(', ')}`
+                    );
+                }
+            }
+            if (files.length > 0 && pair[other].length === 0) {
+                for (const name of files) {
+                    warn(name, `No read ${other} mate was selected`);
+                }
+            }
+        }
+    }
+    return warnings;
+}
@@ -0,0 +1,89 @@
+import { describe, expect, it } from 'vitest';
+import { gzipSync } from 'node:zlib';
+import { inspectBam, inspectCram, inspectFast5, inspectFasta, inspectPod5 } from './fileTypes';
+
+function bytes(...parts: (number[] | string)[]): Uint8Array<ArrayBuffer> {
+    return Uint8Array.from(
+        parts.flatMap((part) =>
+            typeof part === 'string' ? Array.from(part, (c) => c.charCodeAt(0)) : part
+        )
+    );
+}
+
+describe('inspectFasta', () => {
+    it('accepts gzip and plain FASTA files', async () => {
+        const text = '>contig_1 length=8\nACGTNNAC\n>contig_2\nGGCC\n';
+
+        await expect(inspectFasta(new File([text], 'a.fasta'))).resolves.toEqual({
+            name: 'a.fasta',
+            errors: [],
+            warnings: []
+        });
+        await expect(inspectFasta(new File([gzipSync(text)], 'a.fa.gz'))).resolves.toEqual({
+            name: 'a.fa.gz',
+            errors: [],
+            warnings: []
+        });
+    });
+
+    it('reports files that are not FASTA', async () => {
+        const fastq = await inspectFasta(new File(['@read\nACGT\n+\nIIII\n'], 'reads.fasta'));
+        expect(fastq.errors).toEqual(['The file does not start with a ">" header']);
+
+        const binary = await inspectFasta(new File(['>contig\n\u0000\u0001\n'], 'a.fna'));
+        expect(binary.errors).toEqual(['The line after the first header is not a sequence']);
+
+        const empty = await inspectFasta(new File([], 'a.fasta'));
+        expect(empty.errors).toEqual(['The file is empty']);
+    });
+
+    it('checks the compression against the name', async () => {
+        const notGzip = await inspectFasta(new File(['>contig\nACGT\n'], 'a.fasta.gz'));
+        expect(notGzip.errors).toEqual(['The file is named .gz but is not gzip compressed']);
+
+        const unnamed = await inspectFasta(new File([gzipSync('>contig\nACGT\n')], 'a.fasta'));
+        expect(unnamed).toMatchObject({
+            errors: [],
+            warnings: ['The file is gzip compressed but not named .gz']
+        });
+    });
+});
+
+describe('inspectBam', () => {
+    it('accepts a BGZF file with the BAM signature', async () => {
+        const file = new File([gzipSync(bytes('BAM', [1], 'header'))], 'a.bam');
+        await expect(inspectBam(file)).resolves.toEqual({
+            name: 'a.bam',
+            errors: [],
+            warnings: []
+        });
+    });
+
+    it('reports uncompressed and non-BAM files', async () => {
+        const sam = await inspectBam(new File(['@HD\tVN:1.6\n'], 'a.bam'));
+        expect(sam.errors).toEqual(['The file is not BGZF compressed, so it is not a BAM file']);
+
+        const other = await inspectBam(new File([gzipSync('@HD\tVN:1.6\n')], 'a.bam'));
+        expect(other.errors).toEqual(['The file is not a BAM file']);
+    });
+});
+
+describe('signature inspectors', () => {
+    it('accept files starting with their signature', async () => {
+        const cram = new File([bytes('CRAM', [3, 1])], 'a.cram');
+        const pod5 = new File([bytes([0x8b], 'POD\r\n', [0x1a], '\n', [0])], 'a.pod5');
+        const fast5 = new File([bytes([0x89], 'HDF\r\n', [0x1a], '\n', [0])], 'a.fast5');
+
+        expect((await inspectCram(cram)).errors).toEqual([]);
+        expect((await inspectPod5(pod5)).errors).toEqual([]);
+        expect((await inspectFast5(fast5)).errors).toEqual([]);
+    });
+
+    it('report mislabeled and empty files', async () => {
+        const fastq = new File(['@read\nACGT\n+\nIIII\n'], 'a.pod5');
+
+        expect((await inspectPod5(fastq)).errors).toEqual(['The file is not a POD5 file']);
+        expect((await inspectFast5(fastq)).errors).toEqual(['The file is not a FAST5 (HDF5) file']);
+        expect((await inspectCram(new File([], 'a.cram'))).errors).toEqual(['The file is empty']);
+    });
+});
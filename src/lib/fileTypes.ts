@@ -0,0 +1,151 @@
+import { DEFAULT_INSPECT_BYTES, GZIP_MAGIC, readHeadLines } from '$lib/fastq';
+
+/**
+ * The result of a pre-flight check of a selected file. Like the FASTQ checks
+ * in `fastq.ts`, the checks here only read the start of a file: enough to
+ * tell a mislabeled, empty or corrupt file from the format it claims to be.
+ */
+export interface FileInspection {
+    /** The inspected file's name */
+    name: string;
+    /** Problems that make the file unusable */
+    errors: string[];
+    /** Problems worth a look that do not block the upload */
+    warnings: string[];
+}
+
+/** Checks the start of a file */
+export type FileInspector = (file: File) => Promise<FileInspection>;
+
+/** `BAM\1`, at the start of the decompressed BAM header */
+const BAM_MAGIC = [0x42, 0x41, 0x4d, 0x01];
+/** `CRAM`, followed by the format version */
+const CRAM_MAGIC = [0x43, 0x52, 0x41, 0x4d];
+/** `\x8BPOD\r\n\x1A\n` */
+const POD5_MAGIC = [0x8b, 0x50, 0x4f, 0x44, 0x0d, 0x0a, 0x1a, 0x0a];
+/** `\x89HDF\r\n\x1A\n`; FAST5 files are HDF5 files */
+const HDF5_MAGIC = [0x89, 0x48, 0x44, 0x46, 0x0d, 0x0a, 0x1a, 0x0a];
+
+/** Residue codes, plus gaps and stops, allowed on a FASTA sequence line */
+const FASTA_SEQUENCE = /^[A-Za-z*.-]+$/;
+
+function startsWith(bytes: Uint8Array, magic: number[]): boolean {
+    return magic.every((b, i) => bytes[i] === b);
+}
+
+async function readHead(file: File, length: number): Promise<Uint8Array> {
+    return new Uint8Array(await file.slice(0, length).arrayBuffer());
+}
+
+function gunzip(file: File): ReadableStream<Uint8Array> {
+    return (file.stream() as ReadableStream<Uint8Array>).pipeThrough(
+        new DecompressionStream('gzip') as unknown as ReadableWritablePair<Uint8Array, Uint8Array>
+    );
+}
+
+/**
+ * Read the first bytes of a gzip (or BGZF) compressed file, decompressed.
+ */
+async function readGunzippedHead(file: File, length: number): Promise<Uint8Array> {
+    const reader = gunzip(file).getReader();
+    const head = new Uint8Array(length);
+    let filled = 0;
+
+    try {
+        while (filled < length) {
+            const { done, value } = await reader.read();
+            if (done) break;
+            const count = Math.min(length - filled, value.byteLength);
+            head.set(value.subarray(0, count), filled);
+            filled += count;
+        }
+    } finally {
+        reader.cancel().catch(() => {});
+    }
+    return head.subarray(0, filled);
+}
+
+async function inspect(file: File, check: (inspection: FileInspection) => Promise<void>) {
+    const inspection: FileInspection = { name: file.name, errors: [], warnings: [] };
+    if (file.size === 0) {
+        inspection.errors.push('The file is empty');
+        return inspection;
+    }
+
+    try {
+        await check(inspection);
+    } catch (err) {
+        const message = err instanceof Error ? err.message : String(err);
+        inspection.errors.push(`The file could not be read: ${message}`);
+    }
+    return inspection;
+}
+
+/**
+ * Create an inspector that checks a file starts with the signature of its
+ * format.
+ *
+ * @param format - the format name used in messages, e.g. `POD5`
+ * @param magic - the signature bytes
+ */
+export function createSignatureInspector(format: string, magic: number[]): FileInspector {
+    return (file) =>
+        inspect(file, async (inspection) => {
+            if (!startsWith(await readHead(file, magic.length), magic)) {
+                inspection.errors.push(`The file is not a ${format} file`);
+            }
+        });
+}
+
+export const inspectCram = createSignatureInspector('CRAM', CRAM_MAGIC);
+export const inspectPod5 = createSignatureInspector('POD5', POD5_MAGIC);
+export const inspectFast5 = createSignatureInspector('FAST5 (HDF5)', HDF5_MAGIC);
+
+/**
+ * Inspect the start of a BAM file: a BGZF (gzip) block whose content starts
+ * with the BAM signature.
+ *
+ * @param file - the file to inspect
+ */
+export function inspectBam(file: File): Promise<FileInspection> {
+    return inspect(file, async (inspection) => {
+        if (!startsWith(await readHead(file, GZIP_MAGIC.length), GZIP_MAGIC)) {
+            inspection.errors.push('The file is not BGZF compressed, so it is not a BAM file');
+            return;
+        }
+        if (!startsWith(await readGunzippedHead(file, BAM_MAGIC.length), BAM_MAGIC)) {
+            inspection.errors.push('The file is not a BAM file');
+        }
+    });
+}
+
+/**
+ * Inspect the start of a FASTA file: gzip compression matching its name, a
+ * `>` header and a sequence line.
+ *
+ * @param file - the file to inspect
+ */
+export function inspectFasta(file: File): Promise<FileInspection> {
+    return inspect(file, async (inspection) => {
+        const isGzip = startsWith(await readHead(file, GZIP_MAGIC.length), GZIP_MAGIC);
+        const isNamedGzip = file.name.endsWith('.gz');
+        if (isNamedGzip && !isGzip) {
+            inspection.errors.push('The file is named .gz but is not gzip compressed');
+            return;
+        }
+        if (!isNamedGzip && isGzip) {
+            inspection.warnings.push('The file is gzip compressed but not named .gz');
+        }
+
+        const stream = isGzip ? gunzip(file) : (file.stream() as ReadableStream<Uint8Array>);
+        const { lines } = await readHeadLines(stream, 2, DEFAULT_INSPECT_BYTES);
+        const [header, sequence] = lines;
+        if (header === undefined) {
+            inspection.errors.push('The file is empty');
+        } else if (!header.startsWith('>')) {
+            inspection.errors.push('The file does not start with a ">" header');
+        } else if (sequence !== undefined && !FASTA_SEQUENCE.test(sequence)) {
+            inspection.errors.push('The line after the first header is not a sequence');
+        }
+    });
+}
@@ -0,0 +1,150 @@
+import { beforeAll, describe, expect, it } from 'vitest';
+import {
+    getLocationErrors,
+    loadLocationReference,
+    parseLocationCode,
+    toCollectionLocation,
+    toLocationInput
+} from './location';
+import type { LocationInput, LocationReference } from './location';
+
+let locations: LocationReference;
+
+beforeAll(async () => {
+    locations = await loadLocationReference();
+});
+
+function input(parts: Partial<LocationInput>): LocationInput {
+    return { ...toLocationInput(undefined), ...parts };
+}
+
+describe('loadLocationReference', () => {
+    it('loads ISO 3166 countries and their subdivisions', () => {
+        expect(locations.getCountry('US')).toEqual({ code: 'US', name: 'United States' });
+        expect(locations.getSubdivision('US-GA')).toEqual({
+            code: 'US-GA',
+            name: 'Georgia',
+            type: 'State'
+        });
+        expect(locations.getSubdivisions('US').map((s) => s.code)).toContain('US-GA');
+        expect(locations.getSubdivisions('XX')).toEqual([]);
+    });
+
+    it('shares the loaded data', async () => {
+        expect(await loadLocationReference()).toBe(locations);
+    });
+});
+
+describe('getLocationErrors', () => {
+    it('accepts an empty location and a complete one', () => {
+        expect(getLocationErrors(input({}), locations)).toEqual({});
+        expect(
+            getLocationErrors(
+                input({
+                    country: 'US',
+                    subdivision: 'US-GA',
+                    locality: 'Atlanta',
+                    latitude: '33.749',
+                    longitude: '-84.388'
+                }),
+                locations
+            )
+        ).toEqual({});
+    });
+
+    it('reports each invalid part', () => {
+        expect(getLocationErrors(input({ locality: 'Atlanta' }), locations)).toEqual({
+            country: 'Select a country'
+        });
+        expect(getLocationErrors(input({ country: 'XX' }), locations)).toEqual({
+            country: 'XX is not an ISO 3166-1 country code'
+        });
+        expect(
+            getLocationErrors(input({ country: 'FR', subdivision: 'US-GA' }), locations)
+        ).toEqual({
+            subdivision: 'US-GA is not a subdivision of FR'
+        });
+        expect(
+            getLocationErrors(input({ country: 'US', subdivision: 'US-ZZ' }), locations)
+        ).toEqual({
+            subdivision: 'US-ZZ is not an ISO 3166-2 subdivision code'
+        });
+        expect(
+            getLocationErrors(
+                input({ country: 'US', latitude: '91', longitude: 'east' }),
+                locations
+            )
+        ).toEqual({
+            latitude: 'Latitude must be a number from -90 to 90',
+            longitude: 'Longitude must be a number from -180 to 180'
+        });
+    });
+
+    it('requires both coordinates', () => {
+        expect(getLocationErrors(input({ country: 'US', latitude: '33.7' }), locations)).toEqual({
+            longitude: 'Longitude is required with a latitude'
+        });
+        expect(getLocationErrors(input({ country: 'US', longitude: '-84.3' }), locations)).toEqual({
+            latitude: 'Latitude is required with a longitude'
+        });
+    });
+});
+
+describe('toCollectionLocation', () => {
+    it('builds the structured location with a display string', () => {
+        expect(
+            toCollectionLocation(
+                input({
+                    country: 'US',
+                    subdivision: 'US-GA',
+                    locality: ' Atlanta ',
+                    latitude: '33.749',
+                    longitude: '-84.388'
+                }),
+                locations
+            )
+        ).toEqual({
+            country: 'US',
+            subdivision: 'US-GA',
+            locality: 'Atlanta',
+            latitude: 33.749,
+            longitude: -84.388,
+            display: 'Atlanta, Georgia, United States'
+        });
+        expect(toCollectionLocation(input({ country: 'FR' }), locations)).toEqual({
+            country: 'FR',
+            display: 'France'
+        });
+    });
+
+    it('returns undefined without a country', () => {
+        expect(toCollectionLocation(input({}), locations)).toBeUndefined();
+    });
+
+    it('round-trips through toLocationInput', () => {
+        const parts = input({
+            country: 'US',
+            subdivision: 'US-GA',
+            latitude: '1.5',
+            longitude: '2'
+        });
+        const location = toCollectionLocation(parts, locations);
+
+        expect(toLocationInput(location)).toEqual(parts);
+    });
+});
+
+describe('parseLocationCode', () => {
+    it('reads country and subdivision codes in any case', () => {
+        expect(parseLocationCode(' us-ga ', locations)).toEqual({
+            country: 'US',
+            subdivision: 'US-GA'
+        });
+        expect(parseLocationCode('fr', locations)).toEqual({ country: 'FR', subdivision: '' });
+    });
+
+    it('rejects anything else', () => {
+        expect(parseLocationCode('Atlanta, GA', locations)).toBeUndefined();
+        expect(parseLocationCode('US-ZZ', locations)).toBeUndefined();
+    });
+});
@@ -0,0 +1,241 @@
+/**
+ * Structured sample collection locations.
+ *
+ * A location is a country (ISO 3166-1 alpha-2), optionally narrowed to a
+ * subdivision (ISO 3166-2), a free-text locality and WGS 84 coordinates, so
+ * samples can be aggregated by region. The reference data is bundled
+ * (`data/iso3166.json`, generated from Debian's iso-codes) and loaded on
+ * demand, so the picker works offline.
+ */
+export interface CollectionLocation {
+    /** ISO 3166-1 alpha-2 country code, e.g. `US` */
+    country: string;
+    /** ISO 3166-2 subdivision code, e.g. `US-GA` */
+    subdivision?: string;
+    /** City, site or facility */
+    locality?: string;
+    /** Decimal degrees, -90 to 90 */
+    latitude?: number;
+    /** Decimal degrees, -180 to 180 */
+    longitude?: number;
+    /** Human-readable form, e.g. `Atlanta, Georgia, United States` */
+    display: string;
+}
+
+export interface Country {
+    code: string;
+    name: string;
+}
+
+export interface Subdivision {
+    code: string;
+    name: string;
+    /** The kind of subdivision, e.g. `State` or `Province` */
+    type: string;
+    /** The enclosing subdivision, for countries with several levels */
+    parent?: string;
+}
+
+export interface LocationReference {
+    /** All countries, sorted by name */
+    countries: Country[];
+    getCountry(code: string): Country | undefined;
+    getSubdivision(code: string): Subdivision | undefined;
+    /** The subdivisions of a country, sorted by name */
+    getSubdivisions(country: string): Subdivision[];
+}
+
+/** The parts of a location as entered, before they are checked */
+export interface LocationInput {
+    country: string;
+    subdivision: string;
+    locality: string;
+    latitude: string;
+    longitude: string;
+}
+
+/** JSON Schema of a `CollectionLocation`, for sample metadata schemas */
+export const COLLECTION_LOCATION_SCHEMA = {
+    type: 'object',
+    format: 'location',
+    properties: {
+        country: { type: 'string', pattern: '^[A-Z]{2}$' },
+        subdivision: { type: 'string', pattern: '^[A-Z]{2}-[A-Z0-9]{1,3}$' },
+        locality: { type: 'string' },
+        latitude: { type: 'number', minimum: -90, maximum: 90 },
+        longitude: { type: 'number', minimum: -180, maximum: 180 },
+        display: { type: 'string', minLength: 1 }
+    },
+    required: ['country', 'display'],
+    dependentRequired: { latitude: ['longitude'], longitude: ['latitude'] },
+    additionalProperties: false
+};
+
+let reference: Promise<LocationReference> | undefined;
+
+/**
+ * Load the bundled ISO 3166 reference data. It is loaded once and shared.
+ *
+ * @returns the countries and subdivisions
+ */
+export function loadLocationReference(): Promise<LocationReference> {
+    reference ??= import('$lib/data/iso3166.json').then(({ default: data }) =>
+        createLocationReference(data.countries, data.subdivisions)
+    );
+    return reference;
+}
+
+function createLocationReference(
+    countryRows: string[][],
+    subdivisionRows: string[][]
+): LocationReference {
+    const countries = countryRows.map(([code, name]) => ({ code, name }));
+    const countriesByCode = new Map(countries.map((country) => [country.code, country]));
+    const subdivisionsByCode = new Map<string, Subdivision>();
+    const subdivisionsByCountry = new Map<string, Subdivision[]>();
+
+    for (const [code, name, type, parent] of subdivisionRows) {
+        const subdivision = parent ? { code, name, type, parent } : { code, name, type };
+        subdivisionsByCode.set(code, subdivision);
+        const country = code.slice(0, 2);
+        subdivisionsByCountry.set(country, [
+            ...(subdivisionsByCountry.get(country) ?? []),
+            subdivision
+        ]);
+    }
+    for (const subdivisions of subdivisionsByCountry.values()) {
+        subdivisions.sort((a, b) => a.name.localeCompare(b.name));
+    }
+
+    return {
+        countries,
+        getCountry: (code) => countriesByCode.get(code),
+        getSubdivision: (code) => subdivisionsByCode.get(code),
+        getSubdivisions: (country) => subdivisionsByCountry.get(country) ?? []
+    };
+}
+
+/**
+ * Check the parts of a location against the reference data.
+ *
+ * @param input - the parts as entered
+ * @param locations - the reference data
+ * @returns the error message per part; empty when the location is valid
+ */
+export function getLocationErrors(
+    input: LocationInput,
+    locations: LocationReference
+): Partial<Record<keyof LocationInput, string>> {
+    const errors: Partial<Record<keyof LocationInput, string>> = {};
+    const hasDetails = Boolean(
+        input.subdivision || input.locality || input.latitude || input.longitude
+    );
+
+    if (!input.country) {
+        if (hasDetails) errors.country = 'Select a country';
+    } else if (!locations.getCountry(input.country)) {
+        errors.country = `${input.country} is not an ISO 3166-1 country code`;
+    }
+
+    if (input.subdivision && !input.subdivision.startsWith(`${input.country}-`)) {
+        errors.subdivision = `${input.subdivision} is not a subdivision of ${input.country}`;
+    } else if (input.subdivision && !locations.getSubdivision(input.subdivision)) {
+        errors.subdivision = `${input.subdivision} is not an ISO 3166-2 subdivision code`;
+    }
+
+    const latitude = parseCoordinate(input.latitude, 90);
+    const longitude = parseCoordinate(input.longitude, 180);
+    if (Number.isNaN(latitude)) {
+        errors.latitude = 'Latitude must be a number from -90 to 90';
+    }
+    if (Number.isNaN(longitude)) {
+        errors.longitude = 'Longitude must be a number from -180 to 180';
+    }
+    if (latitude !== undefined && longitude === undefined) {
+        errors.longitude = 'Longitude is required with a latitude';
+    } else if (longitude !== undefined && latitude === undefined) {
+        errors.latitude = 'Latitude is required with a longitude';
+    }
+
+    return errors;
+}
+
+/**
+ * Parse decimal degrees.
+ *
+ * @returns the coordinate, undefined when empty, or NaN when it is not a
+ *   number within `±limit`
+ */
+function parseCoordinate(value: string, limit: number): number | undefined {
+    if (value.trim() === '') {
+        return undefined;
+    }
+    const degrees = Number(value);
+    return Number.isFinite(degrees) && Math.abs(degrees) <= limit ? degrees : NaN;
+}
+
+/**
+ * Build the location written to `meta.json` from valid parts.
+ *
+ * @param input - the parts, checked with `getLocationErrors`
+ * @param locations - the reference data
+ * @returns the location, or undefined when no country is given
+ */
+export function toCollectionLocation(
+    input: LocationInput,
+    locations: LocationReference
+): CollectionLocation | undefined {
+    const country = locations.getCountry(input.country);
+    if (!country) {
+        return undefined;
+    }
+
+    const subdivision = input.subdivision ? locations.getSubdivision(input.subdivision) : undefined;
+    const locality = input.locality.trim();
+    const latitude = parseCoordinate(input.latitude, 90);
+    const longitude = parseCoordinate(input.longitude, 180);
+
+    return {
+        country: country.code,
+        ...(subdivision && { subdivision: subdivision.code }),
+        ...(locality && { locality }),
+        ...(latitude !== undefined && longitude !== undefined && { latitude, longitude }),
+        display: [locality, subdivision?.name, country.name].filter(Boolean).join(', ')
+    };
+}
+
+/**
+ * The parts of an existing location, e.g. to edit it
+ *
+ * @param location - the location, if any
+ */
+export function toLocationInput(location: CollectionLocation | undefined): LocationInput {
+    return {
+        country: location?.country ?? '',
+        subdivision: location?.subdivision ?? '',
+        locality: location?.locality ?? '',
+        latitude: location?.latitude?.toString() ?? '',
+        longitude: location?.longitude?.toString() ?? ''
+    };
+}
+
+/**
+ * Read a location code as written in a sample sheet: an ISO 3166-1 country
+ * (`US`) or ISO 3166-2 subdivision (`US-GA`) code, in any case.
+ *
+ * @param code - the code
+ * @returns the country and subdivision parts, or undefined if it is not a code
+ */
+export function parseLocationCode(
+    code: string,
+    locations: LocationReference
+): Pick<LocationInput, 'country' | 'subdivision'> | undefined {
+    const normalized = code.trim().toUpperCase();
+    if (locations.getSubdivision(normalized)) {
+        return { country: normalized.slice(0, 2), subdivision: normalized };
+    }
+    if (locations.getCountry(normalized)) {
+        return { country: normalized, subdivision: '' };
+    }
+    return undefined;
+}
@@ -0,0 +1,417 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+
+vi.mock('axios', async (importOriginal) => {
+    const actual = await importOriginal<typeof import('axios')>();
+    return {
+        ...actual,
+        default: {
+            ...actual.default,
+            put: vi.fn()
+        }
+    };
+});
+
+vi.mock('$lib/apiClient', () => ({
+    capi: { get: vi.fn(), post: vi.fn(), delete: vi.fn() }
+}));
+
+import axios from 'axios';
+import { capi } from '$lib/apiClient';
+import { crc64Nvme } from './checksum';
+import { ChecksumMismatchError, getNumParts, getPartSize, multiPartUpload } from './mpu';
+import type { ChunkStream, PartStatus } from './mpu';
+
+const baseParams = {
+    baseUrl: 'https://api.example.test',
+    bucket: 'example-bucket',
+    key: 'unprocessed/sample-1.tar'
+};
+
+const createXml =
+    '<InitiateMultipartUploadResult><UploadId>upload-1</UploadId></InitiateMultipartUploadResult>';
+const completeXml =
+    '<CompleteMultipartUploadResult><Location>loc</Location><Bucket>example-bucket</Bucket>' +
+    '<Key>unprocessed/sample-1.tar</Key><ETag>"final"</ETag></CompleteMultipartUploadResult>';
+
+async function* chunks(count: number, size: number): ChunkStream {
+    for (let i = 0; i < count; i++) {
+        yield new Uint8Array(size).fill(i);
+    }
+}
+
+function mockEndpoints(numParts: number) {
+    vi.mocked(capi.post).mockImplementation(async (url: string) => ({
+        status: 200,
+        data: url.endsWith('/creatempu') ? createXml : completeXml
+    }));
+    vi.mocked(capi.get).mockResolvedValue({
+        status: 200,
+        data: Array.from({ length: numParts }, (_, i) => ({
+            partNumber: i + 1,
+            url: `https://s3.example.test/part-${i + 1}`
+        }))
+    });
+    vi.mocked(capi.delete).mockResolvedValue({ status: 204 });
+}
+
+function getCompletedPartNumbers(): number[] {
+    const completeCall = vi
+        .mocked(capi.post)
+        .mock.calls.find(([url]) => String(url).endsWith('/completempu'));
+    const xml = String(completeCall?.[1] ?? '');
+    return [...xml.matchAll(/<PartNumber>(\d+)<\/PartNumber>/g)].map((m) => Number(m[1]));
+}
+
+const MIB = 1024 * 1024;
+
+describe('getPartSize', () => {
+    it('uses the 10 MB default for archives that fit in 10,000 parts', () => {
+        expect(getPartSize(1)).toBe(10 * MIB);
+        expect(getPartSize(10 * MIB)).toBe(10 * MIB);
+        expect(getPartSize(10_000 * 10 * MIB)).toBe(10 * MIB);
+    });
+
+    it('grows the part size in whole MiB so very large archives stay within 10,000 parts', () => {
+        const size = 10_000 * 10 * MIB + 1;
+        const partSize = getPartSize(size);
+
+        expect(partSize).toBe(11 * MIB);
+        expect(getNumParts(size, partSize)).toBeLessThanOrEqual(10_000);
+
+        const terabyte = 1024 * 1024 * MIB;
+        expect(getNumParts(terabyte, getPartSize(terabyte))).toBeLessThanOrEqual(10_000);
+
+        const largest = 10_000 * 5 * 1024 * MIB;
+        expect(getPartSize(largest)).toBe(5 * 1024 * MIB);
+    });
+
+    it('rejects archives larger than 10,000 parts of 5 GiB', () => {
+        expect(() => getPartSize(10_000 * 5 * 1024 * MIB + 1)).toThrow('allowed in 10000 parts');
+    });
+});
+
+describe('getNumParts', () => {
+    it('counts exactly one part and a final partial part', () => {
+        expect(getNumParts(10 * MIB, 10 * MIB)).toBe(1);
+        expect(getNumParts(1, 10 * MIB)).toBe(1);
+        expect(getNumParts(10 * MIB + 1, 10 * MIB)).toBe(2);
+    });
+});
+
+describe('multiPartUpload', () => {
+    beforeEach(() => {
+        vi.mocked(capi.get).mockReset();
+        vi.mocked(capi.post).mockReset();
+        vi.mocked(axios.put).mockReset();
+        vi.mocked(capi.delete).mockReset();
+    });
+
+    it('keeps at most `concurrency` parts in flight and completes parts in order', async () => {
+        const numParts = 6;
+        mockEndpoints(numParts);
+
+        let active = 0;
+        let maxActive = 0;
+        vi.mocked(axios.put).mockImplementation(async (url: string, data, config) => {
+            active += 1;
+            maxActive = Math.max(maxActive, active);
+            const partNumber = Number(url.split('-').pop());
+            // Finish later parts first to exercise out-of-order completion
+            await new Promise((resolve) => setTimeout(resolve, (numParts - partNumber) * 2));
+            config?.onUploadProgress?.({ loaded: (data as Uint8Array).length } as never);
+            active -= 1;
+            return { status: 200, headers: { etag: `"etag-${partNumber}"` } };
+        });
+
+        const progress: number[] = [];
+        const result = await multiPartUpload(chunks(numParts, 8), numParts * 8, {
+            ...baseParams,
+            concurrency: 3,
+            onProgress: (bytesSent) => progress.push(bytesSent)
+        });
+
+        expect(result?.key).toBe('unprocessed/sample-1.tar');
+        expect(maxActive).toBe(3);
+        expect(getCompletedPartNumbers()).toEqual([1, 2, 3, 4, 5, 6]);
+        expect(progress).toEqual([...progress].sort((a, b) => a - b));
+        expect(progress.at(-1)).toBe(numParts * 8);
+    });
+
+    it('does not double count bytes when a part is retried', async () => {
+        mockEndpoints(1);
+
+        const networkError = Object.assign(new Error('socket hang up'), { isAxiosError: true });
+        vi.mocked(axios.put)
+            .mockImplementationOnce(async (_url, _data, config) => {
+                config?.onUploadProgress?.({ loaded: 6 } as never);
+                throw networkError;
+            })
+            .mockImplementationOnce(async (_url, _data, config) => {
+                config?.onUploadProgress?.({ loaded: 10 } as never);
+                return { status: 200, headers: { etag: '"etag-1"' } };
+            });
+
+        const progress: number[] = [];
+        await multiPartUpload(chunks(1, 10), 10, {
+            ...baseParams,
+            onProgress: (bytesSent) => progress.push(bytesSent)
+        });
+
+        expect(axios.put).toHaveBeenCalledTimes(2);
+        expect(progress).toEqual([6, 10]);
+    });
+
+    it('reports the state of each part, with its retries and backoff waits', async () => {
+        mockEndpoints(2);
+
+        const networkError = Object.assign(new Error('socket hang up'), { isAxiosError: true });
+        vi.mocked(axios.put)
+            .mockRejectedValueOnce(networkError)
+            .mockResolvedValue({ status: 200, headers: { etag: '"etag"' } });
+
+        const statuses: PartStatus[] = [];
+        await multiPartUpload(chunks(2, 4), 8, {
+            ...baseParams,
+            concurrency: 1,
+            resume: {
+                uploadId: 'upload-0',
+                parts: [
+                    {
+                        partNumber: 2,
+                        eTag: '"etag-2"',
+                        checksum: crc64Nvme(new Uint8Array(4).fill(1))
+                    }
+                ]
+            },
+            onPartStatus: (status) => statuses.push(status)
+        });
+
+        expect(statuses).toEqual([
+            { partNumber: 1, state: 'in-flight', attempt: 1 },
+            {
+                partNumber: 1,
+                state: 'retrying',
+                attempt: 1,
+                delayMs: expect.any(Number),
+                reason: 'socket hang up'
+            },
+            { partNumber: 1, state: 'in-flight', attempt: 2 },
+            { partNumber: 1, state: 'done', attempt: 2 },
+            { partNumber: 2, state: 'done', attempt: 0 }
+        ]);
+    });
+
+    it('stops the remaining parts and aborts the upload when a part fails', async () => {
+        const numParts = 5;
+        mockEndpoints(numParts);
+
+        vi.mocked(axios.put).mockImplementation(async (url: string) => {
+            if (url.endsWith('-2')) {
+                throw new Error('Forbidden');
+            }
+            return { status: 200, headers: { etag: '"etag"' } };
+        });
+
+        await expect(
+            multiPartUpload(chunks(numParts, 4), numParts * 4, { ...baseParams, concurrency: 2 })
+        ).rejects.toThrow('Part 2 upload failed after 1 attempt(s): Forbidden');
+
+        expect(vi.mocked(axios.put).mock.calls.length).toBeLessThan(numParts);
+        expect(capi.delete).toHaveBeenCalledExactlyOnceWith(
+            'https://api.example.test/objstorage/abortmpu',
+            {
+                params: {
+                    bucket: 'example-bucket',
+                    key: 'unprocessed/sample-1.tar',
+                    uploadId: 'upload-1'
+                },
+                httpsAgent: undefined,
+                timeout: 15_000
+            }
+        );
+    });
+
+    it('resumes an existing upload without resending completed parts', async () => {
+        mockEndpoints(3);
+        vi.mocked(axios.put).mockImplementation(async (url: string) => ({
+            status: 200,
+            headers: { etag: `"etag-${url.split('-').pop()}"` }
+        }));
+
+        const uploadedParts: number[] = [];
+        const progress: number[] = [];
+        await multiPartUpload(chunks(3, 4), 12, {
+            ...baseParams,
+            resume: {
+                uploadId: 'upload-0',
+                parts: [{ partNumber: 1, eTag: '"etag-1"', checksum: crc64Nvme(new Uint8Array(4)) }]
+            },
+            onPartUploaded: (part) => uploadedParts.push(part.partNumber),
+            onProgress: (bytesSent) => progress.push(bytesSent)
+        });
+
+        expect(vi.mocked(capi.post).mock.calls.map(([url]) => url)).toEqual([
+            'https://api.example.test/objstorage/completempu'
+        ]);
+        expect(axios.put).toHaveBeenCalledTimes(2);
+        expect(uploadedParts.sort()).toEqual([2, 3]);
+        expect(getCompletedPartNumbers()).toEqual([1, 2, 3]);
+        expect(progress[0]).toBe(4);
+    });
+
+    it('sends a stored part again when it holds other bytes than the stream', async () => {
+        mockEndpoints(2);
+        vi.mocked(axios.put).mockImplementation(async (url: string) => ({
+            status: 200,
+            headers: { etag: `"etag-${url.split('-').pop()}-new"` }
+        }));
+
+        // Part 1 was stored from other bytes than the stream now yields
+        const storedPart = crc64Nvme(new Uint8Array(4).fill(9));
+        const sentPart = crc64Nvme(new Uint8Array(4));
+        const whole = crc64Nvme(new Uint8Array([0, 0, 0, 0, 1, 1, 1, 1]));
+        vi.mocked(capi.post).mockResolvedValue({
+            status: 200,
+            data: completeXml.replace(
+                '</CompleteMultipartUploadResult>',
+                `<ChecksumCRC64NVME>${whole}</ChecksumCRC64NVME>` +
+                    '<ChecksumType>FULL_OBJECT</ChecksumType></CompleteMultipartUploadResult>'
+            )
+        });
+
+        const result = await multiPartUpload(chunks(2, 4), 8, {
+            ...baseParams,
+            resume: {
+                uploadId: 'upload-0',
+                parts: [{ partNumber: 1, eTag: '"etag-1"', checksum: storedPart }]
+            }
+        });
+
+        const completeCall = vi
+            .mocked(capi.post)
+            .mock.calls.find(([url]) => String(url).endsWith('/completempu'));
+        expect(axios.put).toHaveBeenCalledWith(
+            'https://s3.example.test/part-1',
+            expect.anything(),
+            expect.anything()
+        );
+        expect(String(completeCall?.[1])).toContain(
+            `<PartNumber>1</PartNumber><ETag>"etag-1-new"</ETag>` +
+                `<ChecksumCRC64NVME>${sentPart}</ChecksumCRC64NVME>`
+        );
+        expect(result).toMatchObject({ checksum: whole, checksumVerified: true });
+    });
+
+    it('leaves the upload open on failure when asked to keep it', async () => {
+        mockEndpoints(1);
+        vi.mocked(axios.put).mockRejectedValue(new Error('Forbidden'));
+
+        await expect(
+            multiPartUpload(chunks(1, 4), 4, { ...baseParams, keepOnError: true })
+        ).rejects.toThrow('Forbidden');
+
+        expect(capi.delete).not.toHaveBeenCalled();
+    });
+
+    it('aborts a new upload that cannot be recorded', async () => {
+        mockEndpoints(1);
+
+        await expect(
+            multiPartUpload(chunks(1, 4), 4, {
+                ...baseParams,
+                keepOnError: true,
+                onUploadCreated: async () => {
+                    throw new Error('QuotaExceededError');
+                }
+            })
+        ).rejects.toThrow('QuotaExceededError');
+
+        expect(axios.put).not.toHaveBeenCalled();
+        expect(capi.delete).toHaveBeenCalledWith(
+            'https://api.example.test/objstorage/abortmpu',
+            expect.objectContaining({ params: expect.objectContaining({ uploadId: 'upload-1' }) })
+        );
+    });
+
+    it('requests part URLs for the given part size', async () => {
+        mockEndpoints(2);
+        vi.mocked(axios.put).mockResolvedValue({ status: 200, headers: { etag: '"etag"' } });
+
+        await multiPartUpload(chunks(2, 6 * MIB), 12 * MIB, { ...baseParams, partSize: 6 * MIB });
+
+        expect(capi.get).toHaveBeenCalledWith(
+            'https://api.example.test/objstorage/parturls',
+            expect.objectContaining({ params: expect.objectContaining({ numParts: 2 }) })
+        );
+    });
+
+    it('rejects a part size that would exceed 10,000 parts', async () => {
+        mockEndpoints(1);
+
+        await expect(
+            multiPartUpload(chunks(1, 4), 10_001 * 5 * MIB, { ...baseParams, partSize: 5 * MIB })
+        ).rejects.toThrow('more than the 10000 allowed');
+    });
+
+    it('sends part checksums and verifies the checksum reported for the object', async () => {
+        mockEndpoints(2);
+        vi.mocked(axios.put).mockResolvedValue({ status: 200, headers: { etag: '"etag"' } });
+
+        const stream = chunks(2, 4);
+        const whole = crc64Nvme(new Uint8Array([0, 0, 0, 0, 1, 1, 1, 1]));
+        vi.mocked(capi.post).mockImplementation(async (url: string) => ({
+            status: 200,
+            data: url.endsWith('/creatempu')
+                ? createXml
+                : completeXml.replace(
+                      '</CompleteMultipartUploadResult>',
+                      `<ChecksumCRC64NVME>${whole}</ChecksumCRC64NVME>` +
+                          '<ChecksumType>FULL_OBJECT</ChecksumType></CompleteMultipartUploadResult>'
+                  )
+        }));
+
+        const result = await multiPartUpload(stream, 8, baseParams);
+
+        expect(vi.mocked(axios.put).mock.calls[0][2]?.headers).toEqual({
+            'x-amz-checksum-crc64nvme': crc64Nvme(new Uint8Array(4))
+        });
+        const completeCall = vi
+            .mocked(capi.post)
+            .mock.calls.find(([url]) => String(url).endsWith('/completempu'));
+        expect(String(completeCall?.[1])).toContain(
+            `<ChecksumCRC64NVME>${crc64Nvme(new Uint8Array(4))}</ChecksumCRC64NVME>`
+        );
+        expect(result).toMatchObject({ checksum: whole, checksumVerified: true });
+    });
+
+    it('reports the upload as unverified when storage returns no checksum', async () => {
+        mockEndpoints(1);
+        vi.mocked(axios.put).mockResolvedValue({ status: 200, headers: { etag: '"etag"' } });
+
+        const result = await multiPartUpload(chunks(1, 4), 4, baseParams);
+
+        expect(result).toMatchObject({
+            checksum: crc64Nvme(new Uint8Array(4)),
+            checksumVerified: false
+        });
+    });
+
+    it('fails loudly when the stored checksum does not match', async () => {
+        mockEndpoints(1);
+        vi.mocked(axios.put).mockResolvedValue({ status: 200, headers: { etag: '"etag"' } });
+        vi.mocked(capi.post).mockImplementation(async (url: string) => ({
+            status: 200,
+            data: url.endsWith('/creatempu')
+                ? createXml
+                : completeXml.replace(
+                      '</CompleteMultipartUploadResult>',
+                      '<ChecksumCRC64NVME>AAAAAAAAAAA=</ChecksumCRC64NVME></CompleteMultipartUploadResult>'
+                  )
+        }));
+
+        await expect(multiPartUpload(chunks(1, 4), 4, baseParams)).rejects.toBeInstanceOf(
+            ChecksumMismatchError
+        );
+        expect(capi.delete).not.toHaveBeenCalled();
+    });
+});
@@ -1,5 +1,7 @@
 import axios, { CanceledError } from 'axios';
+import { capi } from '$lib/apiClient';
 import { XMLParser } from 'fast-xml-parser';
+import { CHECKSUM_ALGORITHM, combineCrc64Nvme, crc64Nvme } from '$lib/checksum';
 
 const createMpuUrl = (base: string) => `${base}/objstorage/creatempu`;
 const partUrlsUrl = (base: string) => `${base}/objstorage/parturls`;
@@ -8,10 +10,19 @@ const abortMpuUrl = (base: string) => `${base}/objstorage/abortmpu`;
 
 /**
  * Multi-part upload management.
+ *
+ * The `/objstorage/*` calls go through `capi`, so they carry the caller's
+ * Bearer token. Parts are PUT with bare axios: presigned URLs carry their own
+ * signature, and S3 rejects a request that also sends an `Authorization` header.
  */
 
-const DEFAULT_PART_SIZE = 10 * 1024 * 1024; // 10 MB
+const MIB = 1024 * 1024;
+const DEFAULT_PART_SIZE = 10 * MIB; // 10 MB
+const MIN_PART_SIZE = 5 * MIB; // S3 minimum for every part but the last
+const MAX_PART_SIZE = 5 * 1024 * MIB; // S3 maximum part size (5 GiB)
+const MAX_PARTS = 10_000; // S3 maximum number of parts per upload
 const DEFAULT_NUM_RETRIES = 3;
+const DEFAULT_CONCURRENCY = 4;
 
 /**
  * Parameters used in the multi-part upload API
@@ -22,9 +33,51 @@ export interface MultipartUploadParams {
     key: string;
     partSize?: number;
     numRetries?: number;
+    /** Maximum number of part PUTs kept in flight at once */
+    concurrency?: number;
     signal?: AbortSignal;
     onProgress?: OnProgress;
     httpsAgent?: Agent;
+    /** Continue an existing upload instead of creating a new one */
+    resume?: MultipartUploadResume;
+    /** Called with the id of a newly created upload, before any part is sent */
+    onUploadCreated?: (uploadId: string) => void | Promise<void>;
+    /** Called each time a part has been stored */
+    onPartUploaded?: (part: UploadedPart) => void;
+    /** Called each time a part is sent, waits for a retry, is stored or fails */
+    onPartStatus?: OnPartStatus;
+    /** Leave the upload open on failure so it can be resumed later */
+    keepOnError?: boolean;
+}
+
+/**
+ * State needed to continue a multipart upload started earlier.
+ */
+export interface MultipartUploadResume {
+    uploadId: string;
+    /** Parts that already reached storage; these are not sent again */
+    parts: UploadedPart[];
+}
+
+export interface UploadedPart {
+    partNumber: number;
+    eTag: string;
+    /** CRC64NVME of the part, base64 encoded */
+    checksum?: string;
+}
+
+/**
+ * The checksum reported by storage for a completed upload differs from the
+ * one computed over the bytes that were sent.
+ */
+export class ChecksumMismatchError extends Error {
+    constructor(key: string, expected: string, actual: string) {
+        super(
+            `${CHECKSUM_ALGORITHM} checksum mismatch for ${key}: sent ${expected}, stored ${actual}. ` +
+                'The stored object is corrupt and must not be used.'
+        );
+        this.name = 'ChecksumMismatchError';
+    }
 }
 
 export interface MultipartUploadResult {
@@ -32,8 +85,14 @@ export interface MultipartUploadResult {
     bucket: string;
     key: string;
     etag: string;
+    /** CRC64NVME of the uploaded object, computed client-side while sending */
     checksum: string;
     checksumType: string;
+    /**
+     * Whether storage reported the same checksum for the object; false when it
+     * reported none to compare, which callers show as an unverified upload
+     */
+    checksumVerified: boolean;
 }
 
 export type OnProgress = (
@@ -43,25 +102,110 @@ export type OnProgress = (
         partNumber: number;
         numParts: number;
         partSize: number;
+        /** 1-based attempt number, or 0 for a part skipped on resume */
         attempt: number;
     }
 ) => void;
 
+/**
+ * A change in the state of one part. A part is `in-flight` while an attempt
+ * is sent, `retrying` while it waits out the backoff after a failed attempt,
+ * and ends `done` (stored, or skipped on resume) or `failed`.
+ */
+export interface PartStatus {
+    partNumber: number;
+    state: 'in-flight' | 'retrying' | 'done' | 'failed';
+    /** 1-based attempt number, or 0 for a part skipped on resume */
+    attempt: number;
+    /** How long the part waits before the next attempt, when retrying */
+    delayMs?: number;
+    /** Why the attempt failed, when retrying or failed */
+    reason?: string;
+}
+
+export type OnPartStatus = (status: PartStatus) => void;
+
 export type ChunkStream = AsyncGenerator<Uint8Array, void, unknown>;
 
 export type Agent = unknown;
 
+/**
+ * Choose the part size for an upload of `streamSize` bytes.
+ *
+ * Uses the 10 MB default until the stream would need more than S3's 10,000
+ * parts, then grows the part size (rounded up to a whole MiB) so the stream
+ * fits. The same value must be used to chunk the stream and to request part
+ * URLs, so callers should compute it once and pass it as `partSize`.
+ *
+ * @param streamSize - the total number of bytes to upload
+ * @returns the part size in bytes
+ * @throws {Error} If the stream cannot fit in 10,000 parts of at most 5 GiB.
+ */
+export function getPartSize(streamSize: number): number {
+    if (streamSize > MAX_PARTS * MAX_PART_SIZE) {
+        throw new Error(
+            `Upload of ${streamSize} bytes is larger than the ${MAX_PARTS * MAX_PART_SIZE} ` +
+                `bytes allowed in ${MAX_PARTS} parts`
+        );
+    }
+
+    const minimum = Math.ceil(streamSize / MAX_PARTS / MIB) * MIB;
+    return Math.min(MAX_PART_SIZE, Math.max(DEFAULT_PART_SIZE, minimum));
+}
+
+/**
+ * Number of parts needed to upload `streamSize` bytes in `partSize` parts.
+ */
+export function getNumParts(streamSize: number, partSize: number): number {
+    return Math.max(1, Math.ceil(streamSize / partSize));
+}
+
+function checkPartSize(partSize: number, streamSize: number): void {
+    if (!Number.isInteger(partSize) || partSize <= 0 || partSize > MAX_PART_SIZE) {
+        throw new Error(`Invalid part size ${partSize}: must be between 1 and ${MAX_PART_SIZE}`);
+    }
+
+    const numParts = getNumParts(streamSize, partSize);
+    if (numParts > MAX_PARTS) {
+        throw new Error(
+            `Upload of ${streamSize} bytes needs ${numParts} parts of ${partSize} bytes, ` +
+                `more than the ${MAX_PARTS} allowed`
+        );
+    }
+
+    // Only the last part may be smaller than the minimum
+    if (numParts > 1 && partSize < MIN_PART_SIZE) {
+        throw new Error(`Invalid part size ${partSize}: must be at least ${MIN_PART_SIZE}`);
+    }
+}
+
 export async function multiPartUpload(
     stream: ChunkStream,
     streamSize: number,
     params: MultipartUploadParams
 ): Promise<MultipartUploadResult | undefined> {
-    const uploadId = await createMultipartUpload(params);
+    let uploadId = params.resume?.uploadId;
+    if (!uploadId) {
+        uploadId = await createMultipartUpload(params);
+        try {
+            await params.onUploadCreated?.(uploadId);
+        } catch (err: unknown) {
+            // Nothing recorded the new upload, so it could never be resumed:
+            // abort it even when asked to keep it.
+            await abortMultipartUpload(uploadId, params);
+            throw err;
+        }
+    }
+
     try {
         const result = await sendMultipartUpload(stream, streamSize, uploadId, params);
         return result;
     } catch (err: unknown) {
-        await abortMultipartUpload(uploadId, params);
+        // A checksum mismatch is only detected once the upload is complete,
+        // so there is nothing left to abort.
+        if (!params.keepOnError && !(err instanceof ChecksumMismatchError)) {
+            await abortMultipartUpload(uploadId, params);
+        }
         throw err;
     }
 }
@@ -98,8 +242,8 @@ export async function createMultipartUpload({
     httpsAgent,
     signal
 }: MultipartUploadParams): Promise<string> {
-    const queryParams = { bucket, key };
-    const { data } = await axios.post(createMpuUrl(baseUrl), null, {
+    const queryParams = { bucket, key, checksumAlgorithm: CHECKSUM_ALGORITHM };
+    const { data } = await capi.post(createMpuUrl(baseUrl), null, {
         params: queryParams,
         responseType: 'text',
         httpsAgent,
@@ -120,14 +264,40 @@ export async function sendMultipartUpload(
     uploadId: string,
     params: MultipartUploadParams
 ): Promise<MultipartUploadResult | undefined> {
-    const partSize = DEFAULT_PART_SIZE;
-    const numParts = Math.ceil(streamSize / partSize);
+    const partSize = params.partSize ?? getPartSize(streamSize);
+    checkPartSize(partSize, streamSize);
+    const numParts = getNumParts(streamSize, partSize);
     const urls = await openMultipartUpload(uploadId, numParts, params);
-    const parts = await doMultipartUpload(stream, streamSize, partSize, urls, params);
+    const { parts, checksum } = await doMultipartUpload(stream, streamSize, partSize, urls, params);
     if (!(params.signal && params.signal.aborted)) {
         const result = await completeMultipartUpload(uploadId, parts, params);
-        return result;
+        return verifyChecksum(result, checksum);
+    }
+}
+
+/**
+ * Compare the full-object checksum reported by storage with the one computed
+ * while sending.
+ *
+ * @throws {ChecksumMismatchError} If storage reported a different checksum.
+ */
+function verifyChecksum(
+    result: MultipartUploadResult,
+    checksum: string | undefined
+): MultipartUploadResult {
+    if (!checksum) {
+        return { ...result, checksumVerified: false };
+    }
+
+    // Composite checksums (`<checksum>-<parts>`) cannot be compared with a
+    // full-object checksum.
+    const stored = result.checksum;
+    const isComparable = stored && (!result.checksumType || result.checksumType === 'FULL_OBJECT');
+    if (isComparable && stored !== checksum) {
+        throw new ChecksumMismatchError(result.key, checksum, stored);
     }
+
+    return { ...result, checksum, checksumVerified: Boolean(isComparable) };
 }
 
 /**
@@ -159,14 +329,10 @@ export async function abortMultipartUpload(
 ): Promise<void> {
     const { baseUrl, bucket, key, httpsAgent } = params;
 
-    await axios.delete(abortMpuUrl(baseUrl), {
-        params: {
-            Bucket: bucket,
-            Key: key,
-            UploadId: uploadId,
-            httpsAgent,
-            timeout: 15_000
-        }
+    await capi.delete(abortMpuUrl(baseUrl), {
+        params: { bucket, key, uploadId },
+        httpsAgent,
+        timeout: 15_000
     });
 }
 
@@ -195,12 +361,13 @@ async function openMultipartUpload(
         throw new CanceledError();
     }
 
-    const resp = await axios.get(partUrlsUrl(baseUrl), {
+    const resp = await capi.get(partUrlsUrl(baseUrl), {
         params: {
             bucket,
             key,
             uploadId,
-            numParts
+            numParts,
+            checksumAlgorithm: CHECKSUM_ALGORITHM
         },
         responseType: 'json',
         httpsAgent,
@@ -237,9 +404,10 @@ async function openMultipartUpload(
     return items;
 }
 
-interface UploadedPart {
-    partNumber: number;
-    eTag: string;
+/** Byte counters shared by every part of one upload */
+interface PartProgress {
+    bytesSent: number;
+    totalBytes: number;
 }
 
 function sleep(ms: number) {
@@ -255,102 +423,244 @@ function shouldRetry(status: number) {
     return status >= 500 || status == 429 || status == 408;
 }
 
+/**
+ * Upload the parts of a chunk stream to their presigned URLs.
+ *
+ * Parts are PUT through a bounded pool: at most `concurrency` requests are in
+ * flight, and the next chunk is only pulled from the stream once a slot frees
+ * up, so memory stays bounded to a handful of parts. The first part that fails
+ * cancels its siblings and its error is rethrown. Parts are returned sorted by
+ * part number regardless of the order in which they finished.
+ *
+ * Each part is checksummed before it is sent, and the part checksums are
+ * combined into the checksum of the whole stream. Parts stored on an earlier
+ * attempt are only skipped on resume when their checksum matches the stream.
+ */
 async function doMultipartUpload(
     stream: ChunkStream,
     streamSize: number,
     partSize: number,
     urls: PartUrl[],
     parameters: MultipartUploadParams
-): Promise<UploadedPart[]> {
-    const { httpsAgent, signal, onProgress, numRetries = DEFAULT_NUM_RETRIES } = parameters;
+): Promise<{ parts: UploadedPart[]; checksum?: string }> {
+    const { signal, onProgress, onPartUploaded, concurrency = DEFAULT_CONCURRENCY } = parameters;
+    const completed = new Map(parameters.resume?.parts.map((p) => [p.partNumber, p]));
     const uploaded: UploadedPart[] = [];
-    const numParts = urls.length;
-    const totalBytes = streamSize;
-    let bytesSent = 0;
+    const inFlight = new Set<Promise<void>>();
+    const progress: PartProgress = { bytesSent: 0, totalBytes: streamSize };
+    const limit = Math.max(1, Math.floor(concurrency));
     let index = 0;
+    let checksum: string | undefined;
+    let failure: { error: unknown } | undefined;
 
-    for await (const chunk of stream) {
-        const { partNumber, url } = urls[index];
-        let attempt = 0;
-        let perLoaded = 0;
+    // Internal controller so a failed part stops the other parts in flight.
+    // It also follows the caller's signal.
+    const controller = new AbortController();
+    const onAbort = () => controller.abort(signal?.reason);
+    if (signal?.aborted) onAbort();
+    signal?.addEventListener('abort', onAbort);
+    const partParams = { ...parameters, signal: controller.signal };
 
-        while (true) {
-            if (parameters.signal && parameters.signal.aborted) {
+    try {
+        for await (const chunk of stream) {
+            if (failure || controller.signal.aborted) {
                 break;
             }
 
-            attempt += 1;
-            try {
-                const resp = await axios.put(url, chunk, {
-                    maxBodyLength: Infinity,
-                    maxContentLength: Infinity,
-                    httpsAgent,
-                    signal,
-                    onUploadProgress: (e) => {
-                        if (!onProgress) return;
-                        const loaded = e.loaded ?? 0;
-                        const delta = loaded - perLoaded;
-
-                        if (delta > 0) {
-                            perLoaded += delta;
-                            bytesSent += delta;
-                            onProgress(bytesSent, totalBytes, {
-                                partNumber,
-                                numParts,
-                                partSize,
-                                attempt
-                            });
+            const partUrl = urls[index];
+            index += 1;
+            if (!partUrl) {
+                throw new Error(`Stream produced more than the expected ${urls.length} part(s)`);
+            }
+
+            const partChecksum = crc64Nvme(chunk);
+            checksum =
+                checksum === undefined
+                    ? partChecksum
+                    : combineCrc64Nvme(checksum, partChecksum, chunk.length);
+
+            // Parts stored by an earlier attempt still have to be read from
+            // the stream, but are counted as sent instead of uploaded again.
+            // Only a part stored from the same bytes is kept: one that differs
+            // (or was saved without a checksum) is sent again, replacing it.
+            const stored = completed.get(partUrl.partNumber);
+            const done = stored?.checksum === partChecksum ? stored : undefined;
+            if (done) {
+                uploaded.push(done);
+                parameters.onPartStatus?.({
+                    partNumber: done.partNumber,
+                    state: 'done',
+                    attempt: 0
+                });
+                progress.bytesSent += chunk.length;
+                onProgress?.(progress.bytesSent, progress.totalBytes, {
+                    partNumber: done.partNumber,
+                    numParts: urls.length,
+                    partSize,
+                    attempt: 0
+                });
+                continue;
+            }
+
+            const task: Promise<void> = uploadPart(
+                chunk,
+                partChecksum,
+                partUrl,
+                partSize,
+                urls.length,
+                progress,
+                partParams
+            )
+                .then(
+                    (part) => {
+                        if (part) {
+                            uploaded.push(part);
+                            onPartUploaded?.(part);
+                        }
+                    },
+                    (err: unknown) => {
+                        if (!failure) {
+                            failure = { error: err };
+                            controller.abort();
                         }
                     }
-                });
+                )
+                .finally(() => inFlight.delete(task));
+            inFlight.add(task);
+
+            if (inFlight.size >= limit) {
+                await Promise.race(inFlight);
+            }
+        }
+
+        await Promise.all(inFlight);
+    } catch (err: unknown) {
+        // The stream itself failed: stop whatever is still uploading
+        controller.abort();
+        await Promise.allSettled(inFlight);
+        throw err;
+    } finally {
+        signal?.removeEventListener('abort', onAbort);
+    }
+
+    if (failure) {
+        throw failure.error;
+    }
+
+    return {
+        parts: uploaded.sort((a, b) => a.partNumber - b.partNumber),
+        checksum
+    };
+}
+
+/**
+ * PUT a single part, retrying network drops and retryable statuses with
+ * backoff. Resolves to `undefined` if the upload was aborted.
+ */
+async function uploadPart(
+    chunk: Uint8Array,
+    checksum: string,
+    { partNumber, url }: PartUrl,
+    partSize: number,
+    numParts: number,
+    progress: PartProgress,
+    params: MultipartUploadParams
+): Promise<UploadedPart | undefined> {
+    const {
+        httpsAgent,
+        signal,
+        onProgress,
+        onPartStatus,
+        numRetries = DEFAULT_NUM_RETRIES
+    } = params;
+    let attempt = 0;
+    let perLoaded = 0;
+
+    const waitToRetry = (reason: string) => {
+        const delayMs = backoff(attempt);
+        onPartStatus?.({ partNumber, state: 'retrying', attempt, delayMs, reason });
+        return sleep(delayMs);
+    };
+
+    while (true) {
+        if (signal && signal.aborted) {
+            return undefined;
+        }
 
-                if (resp.status >= 200 && resp.status <= 300) {
-                    const headers = resp.headers;
-                    if (
-                        headers &&
-                        typeof headers === 'object' &&
-                        'etag' in headers &&
-                        typeof headers.etag === 'string'
-                    ) {
-                        const eTag: string = headers.etag;
-                        uploaded.push({ partNumber, eTag });
-                        break;
-                    } else {
-                        throw new Error(`Part ${partNumber}: missing etag in response headers `);
+        attempt += 1;
+        onPartStatus?.({ partNumber, state: 'in-flight', attempt });
+        try {
+            const resp = await axios.put(url, chunk, {
+                headers: { 'x-amz-checksum-crc64nvme': checksum },
+                maxBodyLength: Infinity,
+                maxContentLength: Infinity,
+                httpsAgent,
+                signal,
+                onUploadProgress: (e) => {
+                    if (!onProgress) return;
+                    const loaded = e.loaded ?? 0;
+                    const delta = loaded - perLoaded;
+
+                    // Only count bytes beyond what this part already
+                    // reported, so retries never move the total backwards.
+                    if (delta > 0) {
+                        perLoaded += delta;
+                        progress.bytesSent += delta;
+                        onProgress(progress.bytesSent, progress.totalBytes, {
+                            partNumber,
+                            numParts,
+                            partSize,
+                            attempt
+                        });
                     }
                 }
-
-                if (attempt < numRetries && shouldRetry(resp.status)) {
-                    await sleep(backoff(attempt));
-                    continue;
+            });
+
+            if (resp.status >= 200 && resp.status <= 300) {
+                const headers = resp.headers;
+                if (
+                    headers &&
+                    typeof headers === 'object' &&
+                    'etag' in headers &&
+                    typeof headers.etag === 'string'
+                ) {
+                    const eTag: string = headers.etag;
+                    onPartStatus?.({ partNumber, state: 'done', attempt });
+                    return { partNumber, eTag, checksum };
+                } else {
+                    throw new Error(`Part ${partNumber}: missing etag in response headers `);
                 }
+            }
 
-                const snippet =
-                    typeof resp.data === 'string'
-                        ? resp.data.slice(0, 200)
-                        : JSON.stringify(resp.data ?? {}).slice(0, 200);
-                throw new Error(
-                    `Part ${partNumber} upload failed: ${resp.status} ${resp.statusText} - ${snippet}`
-                );
-            } catch (err: unknown) {
-                // Continue trying if we had a network drop
-                const isNetworkError = axios.isAxiosError(err) && !err.response;
-                if (isNetworkError && attempt <= numRetries) {
-                    await sleep(backoff(attempt));
-                    continue;
-                }
+            if (attempt < numRetries && shouldRetry(resp.status)) {
+                await waitToRetry(`${resp.status} ${resp.statusText}`);
+                continue;
+            }
 
-                const msg = err instanceof Error ? err.message : String(err);
-                throw new Error(
-                    `Part ${partNumber} upload failed after ${attempt} attempt(s): ${msg}`
-                );
+            const snippet =
+                typeof resp.data === 'string'
+                    ? resp.data.slice(0, 200)
+                    : JSON.stringify(resp.data ?? {}).slice(0, 200);
+            throw new Error(
+                `Part ${partNumber} upload failed: ${resp.status} ${resp.statusText} - ${snippet}`
+            );
+        } catch (err: unknown) {
+            if (signal && signal.aborted) {
+                return undefined;
             }
-        }
 
-        index += 1;
-    }
+            // Continue trying if we had a network drop
+            const isNetworkError = axios.isAxiosError(err) && !err.response;
+            const msg = err instanceof Error ? err.message : String(err);
+            if (isNetworkError && attempt <= numRetries) {
+                await waitToRetry(msg);
+                continue;
+            }
 
-    return uploaded;
+            onPartStatus?.({ partNumber, state: 'failed', attempt, reason: msg });
+            throw new Error(`Part ${partNumber} upload failed after ${attempt} attempt(s): ${msg}`);
+        }
+    }
 }
 
 function ensureQuoted(tag: string): string {
@@ -362,8 +672,10 @@ function getMultipartUploadXML(parts: UploadedPart[]): string {
     const ns = 'http://s3.amazonaws.com/doc/2006-03-01/';
     const items = parts
         .map(
-            ({ partNumber, eTag }) =>
-                `<Part><PartNumber>${partNumber}</PartNumber><ETag>${ensureQuoted(eTag)}</ETag></Part>`
+            ({ partNumber, eTag, checksum }) =>
+                `<Part><PartNumber>${partNumber}</PartNumber><ETag>${ensureQuoted(eTag)}</ETag>` +
+                (checksum ? `<ChecksumCRC64NVME>${checksum}</ChecksumCRC64NVME>` : '') +
+                `</Part>`
         )
         .join('');
     return (
@@ -382,7 +694,7 @@ async function completeMultipartUpload(
     if (parts.length === 0) throw new Error('completeMultipartUpload: no parts provided');
     const xml = getMultipartUploadXML(parts);
 
-    const resp = await axios.post(completeMpuUrl(baseUrl), xml, {
+    const resp = await capi.post(completeMpuUrl(baseUrl), xml, {
         params: { bucket, key, uploadId },
         headers: { 'Content-Type': 'application/xml' },
         responseType: 'text',
@@ -403,6 +715,7 @@ async function completeMultipartUpload(
         key: CompleteMultipartUploadResult.Key,
         etag: CompleteMultipartUploadResult.ETag,
         checksum: CompleteMultipartUploadResult.ChecksumCRC64NVME,
-        checksumType: CompleteMultipartUploadResult.ChecksumType
+        checksumType: CompleteMultipartUploadResult.ChecksumType,
+        checksumVerified: false
     };
 }
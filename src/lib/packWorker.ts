@@ -0,0 +1,93 @@
+import { chunkStream, tarPack } from '$lib/stream';
+import type { SampleMeta } from '$lib/stream';
+
+/**
+ * Web Worker that packs a sample into a tar archive and cuts it into upload
+ * parts, so the `buffer`/`readable-stream` work stays off the main thread.
+ *
+ * Protocol: the uploader sends `start` with the sample and the number of
+ * parts it is willing to buffer, then one `pull` per part it consumes. The
+ * worker only reads the next part when it holds a credit, so memory stays
+ * bounded at a few parts no matter how large the archive is. Parts are posted
+ * as transferable `ArrayBuffer`s, so they are moved rather than copied.
+ */
+export type PackRequest =
+    | {
+          type: 'start';
+          meta: SampleMeta;
+          files: File[];
+          /** The archive directory of the files */
+          archiveDir: string;
+          partSize: number;
+          /** How many parts may be sent before the first `pull` */
+          highWaterMark: number;
+      }
+    | { type: 'pull' };
+
+export type PackResponse =
+    { type: 'part'; bytes: ArrayBuffer } | { type: 'end' } | { type: 'error'; message: string };
+
+/**
+ * The subset of `Worker`, `DedicatedWorkerGlobalScope` and `MessagePort`
+ * used by the protocol.
+ */
+export interface PackPort<Send, Receive> {
+    postMessage(message: Send, transfer: Transferable[]): void;
+    postMessage(message: Send): void;
+    onmessage: ((event: MessageEvent<Receive>) => void) | null;
+}
+
+/**
+ * Answer pack requests arriving on `port`.
+ *
+ * @param port - the worker scope (or any port speaking the protocol)
+ */
+export function servePackRequests(port: PackPort<PackResponse, PackRequest>): void {
+    let credits = 0;
+    let onCredit: (() => void) | undefined;
+
+    port.onmessage = ({ data }) => {
+        if (data.type === 'start') {
+            credits += data.highWaterMark;
+            void sendParts(data.meta, data.files, data.archiveDir, data.partSize);
+        } else if (data.type === 'pull') {
+            credits += 1;
+            onCredit?.();
+        }
+    };
+
+    async function sendParts(
+        meta: SampleMeta,
+        files: File[],
+        archiveDir: string,
+        partSize: number
+    ) {
+        try {
+            const parts = chunkStream(tarPack(meta, files, archiveDir), partSize);
+            while (true) {
+                while (credits === 0) {
+                    await new Promise<void>((resolve) => (onCredit = resolve));
+                }
+
+                const { done, value } = await parts.next();
+                if (done) break;
+
+                // Each part owns its buffer, so it can be moved without a copy
+                const bytes = value.buffer;
+                credits -= 1;
+                port.postMessage({ type: 'part', bytes }, [bytes]);
+            }
+            port.postMessage({ type: 'end' });
+        } catch (err) {
+            port.postMessage({
+                type: 'error',
+                message: err instanceof Error ? err.message : String(err)
+            });
+        }
+    }
+}
+
+// Only start serving when loaded as a worker, not when imported by tests
+if ('WorkerGlobalScope' in globalThis && typeof window === 'undefined') {
+    servePackRequests(globalThis as unknown as PackPort<PackResponse, PackRequest>);
+}
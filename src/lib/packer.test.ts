@@ -0,0 +1,127 @@
+import { describe, expect, it } from 'vitest';
+import { crc64Nvme } from './checksum';
+import { packChunks, receivePackedParts } from './packer';
+import { servePackRequests } from './packWorker';
+import { tarSize } from './stream';
+import type { PackPort, PackRequest, PackResponse } from './packWorker';
+
+const meta = {
+    sampleId: 'S1',
+    sampleType: 'isolate',
+    sampleMatrix: 'stool',
+    sampleCollectionDate: '2026-01-01T00:00:00.000+00:00'
+};
+const files = [
+    new File([new Uint8Array(3_000).fill(1)], 'S1_R1.fastq.gz'),
+    new File([new Uint8Array(2_000).fill(2)], 'S1_R2.fastq.gz')
+];
+
+async function collect(stream: AsyncIterable<Uint8Array>): Promise<Uint8Array[]> {
+    const parts: Uint8Array[] = [];
+    for await (const part of stream) {
+        parts.push(part);
+    }
+    return parts;
+}
+
+/**
+ * Two ports that deliver each other's messages asynchronously, like a worker
+ * and its owner, without structured cloning (which drops File names in node).
+ */
+function createPortPair() {
+    const uploader: PackPort<PackRequest, PackResponse> = {
+        onmessage: null,
+        postMessage: (data) =>
+            setTimeout(() => worker.onmessage?.({ data } as MessageEvent<PackRequest>))
+    };
+    const worker: PackPort<PackResponse, PackRequest> = {
+        onmessage: null,
+        postMessage: (data) =>
+            setTimeout(() => uploader.onmessage?.({ data } as MessageEvent<PackResponse>))
+    };
+    return { uploader, worker };
+}
+
+describe('packChunks', () => {
+    it('packs on the main thread when workers are unavailable', async () => {
+        const parts = await collect(packChunks(meta, files, 1024));
+
+        expect(parts.slice(0, -1).every((part) => part.length === 1024)).toBe(true);
+        expect(parts.reduce((sum, part) => sum + part.length, 0)).toBe(tarSize(meta, files));
+    });
+});
+
+describe('receivePackedParts', () => {
+    it('receives the same parts the worker packs', async () => {
+        const { uploader, worker } = createPortPair();
+        servePackRequests(worker);
+
+        const start = {
+            type: 'start',
+            meta,
+            files,
+            archiveDir: 'sequencing',
+            partSize: 1024,
+            highWaterMark: 2
+        } as const;
+        const fromWorker = await collect(receivePackedParts(uploader, start));
+        const inThread = await collect(packChunks(meta, files, 1024));
+
+        expect(fromWorker.map(crc64Nvme)).toEqual(inThread.map(crc64Nvme));
+        expect(fromWorker.map((part) => part.length)).toEqual(inThread.map((part) => part.length));
+    });
+
+    it('keeps at most `highWaterMark` parts waiting for the uploader', async () => {
+        const { uploader, worker } = createPortPair();
+        servePackRequests(worker);
+
+        let sent = 0;
+        let consumed = 0;
+        let maxWaiting = 0;
+        const postMessage = worker.postMessage;
+        worker.postMessage = (message: PackResponse) => {
+            if (message.type === 'part') {
+                sent += 1;
+                maxWaiting = Math.max(maxWaiting, sent - consumed);
+            }
+            postMessage(message);
+        };
+
+        const start = {
+            type: 'start',
+            meta,
+            files,
+            archiveDir: 'sequencing',
+            partSize: 512,
+            highWaterMark: 2
+        } as const;
+        for await (const part of receivePackedParts(uploader, start)) {
+            expect(part.length).toBeGreaterThan(0);
+            // A slow uploader
+            await new Promise((resolve) => setTimeout(resolve, 5));
+            consumed += 1;
+        }
+
+        expect(consumed).toBeGreaterThan(4);
+        // The credit for a part is returned as the uploader takes it, so one
+        // more part may arrive while it is still being uploaded
+        expect(maxWaiting).toBeLessThanOrEqual(3);
+    });
+
+    it('fails the stream when the worker reports an error', async () => {
+        const { uploader, worker } = createPortPair();
+        worker.onmessage = () => worker.postMessage({ type: 'error', message: 'disk gone' });
+
+        const start = {
+            type: 'start',
+            meta,
+            files,
+            archiveDir: 'sequencing',
+            partSize: 1024,
+            highWaterMark: 2
+        } as const;
+        await expect(collect(receivePackedParts(uploader, start))).rejects.toThrow(
+            'Packing the archive failed: disk gone'
+        );
+    });
+});
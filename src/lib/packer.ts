@@ -0,0 +1,123 @@
+import { chunkStream, DEFAULT_ARCHIVE_DIR, tarPack } from '$lib/stream';
+import type { ChunkStream } from '$lib/mpu';
+import type { SampleMeta } from '$lib/stream';
+import type { PackPort, PackRequest, PackResponse } from '$lib/packWorker';
+
+/**
+ * How many packed parts may wait for the uploader. Together with the parts
+ * being uploaded, this bounds the memory an upload holds.
+ */
+export const PACK_HIGH_WATER_MARK = 2;
+
+/**
+ * Pack a sample into a tar archive and cut it into upload parts.
+ *
+ * The work runs in a Web Worker (see `packWorker.ts`) when workers are
+ * available, and on the main thread otherwise (e.g. under vitest/jsdom, or
+ * if the worker cannot be started).
+ *
+ * @param meta - the sample metadata
+ * @param files - the sequencing files
+ * @param partSize - the size of every part but the last
+ * @param archiveDir - the archive directory of the files
+ * @returns the upload parts, in order
+ */
+export function packChunks(
+    meta: SampleMeta,
+    files: File[],
+    partSize: number,
+    archiveDir = DEFAULT_ARCHIVE_DIR
+): ChunkStream {
+    if (typeof Worker === 'undefined') {
+        return packInThread(meta, files, partSize, archiveDir);
+    }
+    return packInWorker(meta, files, partSize, archiveDir);
+}
+
+async function* packInThread(
+    meta: SampleMeta,
+    files: File[],
+    partSize: number,
+    archiveDir: string
+): ChunkStream {
+    yield* chunkStream(tarPack(meta, files, archiveDir), partSize);
+}
+
+async function* packInWorker(
+    meta: SampleMeta,
+    files: File[],
+    partSize: number,
+    archiveDir: string
+): ChunkStream {
+    let worker: Worker;
+    try {
+        worker = new Worker(new URL('./packWorker.ts', import.meta.url), { type: 'module' });
+    } catch (err) {
+        console.warn('Packing on the main thread, the pack worker could not start', err);
+        yield* packInThread(meta, files, partSize, archiveDir);
+        return;
+    }
+
+    try {
+        yield* receivePackedParts(worker, {
+            type: 'start',
+            meta,
+            files,
+            archiveDir,
+            partSize,
+            highWaterMark: PACK_HIGH_WATER_MARK
+        });
+    } finally {
+        // Also stops packing when the upload ends early (failure or cancel)
+        worker.terminate();
+    }
+}
+
+/**
+ * Start packing on `port` and yield the parts it sends back, returning one
+ * credit per part consumed.
+ *
+ * @param port - the pack worker (or any port speaking the protocol)
+ * @param start - the start request
+ */
+export async function* receivePackedParts(
+    port: PackPort<PackRequest, PackResponse> & {
+        onerror?: ((event: ErrorEvent) => void) | null;
+    },
+    start: Extract<PackRequest, { type: 'start' }>
+): ChunkStream {
+    const parts: Uint8Array[] = [];
+    let isDone = false;
+    let error: Error | undefined;
+    let notify: (() => void) | undefined;
+
+    port.onmessage = ({ data }) => {
+        if (data.type === 'part') {
+            parts.push(new Uint8Array(data.bytes));
+        } else if (data.type === 'end') {
+            isDone = true;
+        } else {
+            error = new Error(`Packing the archive failed: ${data.message}`);
+        }
+        notify?.();
+    };
+    port.onerror = (event) => {
+        error = new Error(`Packing the archive failed: ${event.message || 'worker error'}`);
+        notify?.();
+    };
+    port.postMessage(start);
+
+    while (true) {
+        const part = parts.shift();
+        if (part) {
+            port.postMessage({ type: 'pull' });
+            yield part;
+        } else if (error) {
+            throw error;
+        } else if (isDone) {
+            return;
+        } else {
+            await new Promise<void>((resolve) => (notify = resolve));
+        }
+    }
+}
@@ -5,7 +5,8 @@ vi.mock('$lib/apiClient', () => ({
 }));
 
 import { capi } from '$lib/apiClient';
-import { getWorkflowProfilesCached } from './pipeline';
+import { getSampleOptions, getWorkflowProfilesCached, triggerWorkflow } from './pipeline';
+import type { PipelineProfile } from './pipeline';
 
 describe('getWorkflowProfilesCached', () => {
     beforeEach(() => {
@@ -35,3 +36,58 @@ describe('getWorkflowProfilesCached', () => {
         expect(capi.get).toHaveBeenCalledTimes(2);
     });
 });
+
+describe('getSampleOptions', () => {
+    const sample = {
+        bucket: 'example-bucket',
+        key: 'unprocessed/sample-1.tar',
+        sampleId: 'sample-1'
+    };
+
+    function profile(sampleInputs?: PipelineProfile['sampleInputs']): PipelineProfile {
+        return { pipelineName: 'stage', sampleInputs } as PipelineProfile;
+    }
+
+    it('fills the parameters declared by the profile', () => {
+        const options = getSampleOptions(
+            profile({ uri: 'input', key: 'input_key', sampleId: 'sample_id' }),
+            ['input', 'input_key', 'sample_id', 'outdir'],
+            sample
+        );
+
+        expect(options).toEqual({
+            input: 's3://example-bucket/unprocessed/sample-1.tar',
+            input_key: 'unprocessed/sample-1.tar',
+            sample_id: 'sample-1'
+        });
+    });
+
+    it('skips parameters the stage does not define', () => {
+        expect(
+            getSampleOptions(profile({ uri: 'input', sampleId: 'sample_id' }), ['input'], sample)
+        ).toEqual({ input: 's3://example-bucket/unprocessed/sample-1.tar' });
+        expect(getSampleOptions(profile(), ['input'], sample)).toEqual({});
+    });
+});
+
+describe('triggerWorkflow', () => {
+    it('posts the stage configs and returns the new run', async () => {
+        vi.mocked(capi.post).mockResolvedValue({
+            data: { dag_id: 'dag 1', dag_run_id: 'manual__1' }
+        });
+
+        const run = await triggerWorkflow('https://api.example.test', 'dag 1', [
+            { pipelineId: 'stage-1', nextflowOptions: { '--input': 's3://b/k' } }
+        ]);
+
+        expect(run).toEqual({ dagId: 'dag 1', dagRunId: 'manual__1' });
+        expect(capi.post).toHaveBeenCalledWith(
+            'https://api.example.test/workflows/trigger?dagId=dag%201',
+            {
+                pipelineConfigs: [
+                    { pipelineId: 'stage-1', nextflowOptions: { '--input': 's3://b/k' } }
+                ]
+            }
+        );
+    });
+});
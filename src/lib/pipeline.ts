@@ -15,7 +15,31 @@ export interface PipelineProfile {
     version: string;
     pipelineRunnable?: boolean;
     pipelineId?: string;
+    /** A JsonForms layout of the parameters, checked by `parseUiSchema` */
     uiSchema?: unknown;
+    /**
+     * The stage parameters that take an uploaded sample, e.g.
+     * `{ uri: 'input', sampleId: 'sample_id' }`
+     */
+    sampleInputs?: SampleInputs;
+}
+
+export interface SampleInputs {
+    /** The parameter set to the sample's `s3://bucket/key` URI */
+    uri?: string;
+    /** The parameter set to the sample's S3 key */
+    key?: string;
+    /** The parameter set to the sample ID */
+    sampleId?: string;
+}
+
+/**
+ * A sample in the upload bucket that a workflow is run on
+ */
+export interface UploadedSample {
+    bucket: string;
+    key: string;
+    sampleId: string;
 }
 
 export interface WorkflowDAG {
@@ -38,6 +62,42 @@ export async function getWorkflows(baseUrl: string): Promise<WorkflowDAG[]> {
     return workflows;
 }
 
+/**
+ * The options of one workflow stage, as sent to the trigger endpoint and
+ * recorded in the run's `conf.pipelineConfigs`
+ */
+export interface PipelineConfig {
+    pipelineId?: string;
+    nextflowOptions: Record<string, unknown>;
+}
+
+/**
+ * A workflow run created by `triggerWorkflow`
+ */
+export interface TriggeredRun {
+    dagId: string;
+    dagRunId: string;
+}
+
+/**
+ * Trigger a run of a workflow
+ *
+ * @param baseUrl - the API base URL
+ * @param dagId - the workflow DAG ID
+ * @param pipelineConfigs - the options of each stage, in stage order
+ * @returns the DAG and run IDs of the new run
+ */
+export async function triggerWorkflow(
+    baseUrl: string,
+    dagId: string,
+    pipelineConfigs: PipelineConfig[]
+): Promise<TriggeredRun> {
+    const url = `${baseUrl}/workflows/trigger?dagId=${encodeURIComponent(dagId)}`;
+    const response = await capi.post(url, { pipelineConfigs });
+    const { dag_run_id: dagRunId, dag_id: responseDagId } = response.data;
+    return { dagId: responseDagId, dagRunId };
+}
+
 /**
  * Get the profiles for all stages in a workflow
  *
@@ -87,3 +147,61 @@ export function getWorkflowProfilesCached(
 
     return cached;
 }
+
+/**
+ * Get the stage options that pass an uploaded sample to a stage, using the
+ * parameters its profile declares in `sampleInputs`. Parameters the stage's
+ * schema does not define are left out.
+ *
+ * @param profile - the stage profile
+ * @param fieldKeys - the parameters defined by the stage's schema
+ * @param sample - the uploaded sample
+ * @returns the options to merge into the stage's options
+ */
+export function getSampleOptions(
+    profile: PipelineProfile,
+    fieldKeys: string[],
+    sample: UploadedSample
+): Record<string, string> {
+    const values: Record<keyof SampleInputs, string> = {
+        uri: `s3://${sample.bucket}/${sample.key}`,
+        key: sample.key,
+        sampleId: sample.sampleId
+    };
+
+    const options: Record<string, string> = {};
+    for (const [input, value] of Object.entries(values)) {
+        const param = profile.sampleInputs?.[input as keyof SampleInputs];
+        if (param && fieldKeys.includes(param)) {
+            options[param] = value;
+        }
+    }
+    return options;
+}
+
+const SAMPLE_WORKFLOW_KEY = 'cape:sample-workflow';
+
+/**
+ * Get the workflow last run on an uploaded sample in this browser, if any.
+ */
+export function readSampleWorkflow(): string | undefined {
+    try {
+        return localStorage.getItem(SAMPLE_WORKFLOW_KEY) ?? undefined;
+    } catch {
+        return undefined;
+    }
+}
+
+/**
+ * Remember the workflow run on an uploaded sample so it is preselected for the
+ * next sample.
+ *
+ * @param dagId - the workflow DAG ID
+ */
+export function rememberSampleWorkflow(dagId: string) {
+    try {
+        localStorage.setItem(SAMPLE_WORKFLOW_KEY, dagId);
+    } catch {
+        // Storage may be unavailable or full; the workflow is just not preselected
+    }
+}
@@ -0,0 +1,138 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { AxiosError, AxiosHeaders } from 'axios';
+
+vi.mock('$lib/apiClient', () => ({
+    capi: { get: vi.fn(), post: vi.fn(), patch: vi.fn() }
+}));
+
+import { capi } from '$lib/apiClient';
+import {
+    DEFAULT_SAMPLE_META_SCHEMA,
+    getSampleMetaDefaults,
+    getSampleMetaErrors,
+    getSampleMetaSchema,
+    resolveSampleMetaForm,
+    toSampleMeta
+} from './sampleMeta';
+
+const schema = {
+    type: 'object',
+    required: ['sampleId', 'sampleType', 'collectedOn'],
+    properties: {
+        sampleId: { type: 'string', title: 'Sample ID', pattern: '^[A-Za-z0-9._-]+$' },
+        sampleType: { type: 'string', title: 'Sample Type', enum: ['isolate', 'metagenome'] },
+        readLength: { type: 'integer', title: 'Read Length', minimum: 1 },
+        collectedOn: { type: 'string', title: 'Collected On', format: 'date' }
+    }
+};
+
+function notFound() {
+    return new AxiosError('Not Found', '404', undefined, undefined, {
+        status: 404,
+        statusText: 'Not Found',
+        headers: {},
+        config: { headers: new AxiosHeaders() },
+        data: {}
+    });
+}
+
+describe('getSampleMetaSchema', () => {
+    beforeEach(() => {
+        vi.mocked(capi.get).mockReset();
+    });
+
+    it('fetches the schema of the bucket', async () => {
+        vi.mocked(capi.get).mockResolvedValue({ data: schema });
+
+        await expect(getSampleMetaSchema('https://api.example.test', 'bucket-a')).resolves.toBe(
+            schema
+        );
+        expect(capi.get).toHaveBeenCalledWith('https://api.example.test/objstorage/metaschema', {
+            params: { bucket: 'bucket-a' }
+        });
+    });
+
+    it('falls back to the default schema when the bucket has none', async () => {
+        vi.mocked(capi.get).mockRejectedValue(notFound());
+
+        await expect(getSampleMetaSchema('https://api.example.test', 'bucket-a')).resolves.toBe(
+            DEFAULT_SAMPLE_META_SCHEMA
+        );
+    });
+
+    it('rethrows other errors', async () => {
+        vi.mocked(capi.get).mockRejectedValue(new Error('Network Error'));
+
+        await expect(getSampleMetaSchema('https://api.example.test', 'bucket-a')).rejects.toThrow(
+            'Network Error'
+        );
+    });
+});
+
+describe('sample metadata forms', () => {
+    it('requires the schema to define sampleId', async () => {
+        await expect(
+            resolveSampleMetaForm({ type: 'object', properties: { name: { type: 'string' } } })
+        ).rejects.toThrow('The sample metadata schema does not define sampleId');
+    });
+
+    it('resolves a schema with an $id each time it is loaded', async () => {
+        const withId = { ...schema, $id: 'https://example.test/sample-meta.json' };
+        await resolveSampleMetaForm(withId);
+
+        const form = await resolveSampleMetaForm({
+            ...withId,
+            required: [...withId.required, 'readLength']
+        });
+
+        expect(getSampleMetaErrors(form, { sampleId: 'S1', sampleType: 'isolate' })).toEqual({
+            collectedOn: 'is required',
+            readLength: 'is required'
+        });
+    });
+
+    it('starts date fields at today', async () => {
+        const form = await resolveSampleMetaForm(DEFAULT_SAMPLE_META_SCHEMA);
+
+        const values = getSampleMetaDefaults(form);
+
+        expect(values.sampleId).toBe('');
+        expect(values.sampleCollectionDate).toBe(
+            `${new Date().toISOString().slice(0, 10)}T00:00:00.000+00:00`
+        );
+    });
+
+    it('reports one error per invalid field', async () => {
+        const form = await resolveSampleMetaForm(schema);
+
+        expect(
+            getSampleMetaErrors(form, {
+                sampleId: 'S 1',
+                sampleType: 'stool',
+                readLength: '0',
+                collectedOn: ''
+            })
+        ).toEqual({
+            sampleId: 'must match pattern "^[A-Za-z0-9._-]+$"',
+            sampleType: 'must be equal to one of the allowed values',
+            readLength: 'must be >= 1',
+            collectedOn: 'is required'
+        });
+    });
+
+    it('types valid values for meta.json', async () => {
+        const form = await resolveSampleMetaForm(schema);
+        const values = {
+            sampleId: 'S1',
+            sampleType: 'isolate',
+            readLength: '150',
+            collectedOn: '2026-01-31'
+        };
+
+        expect(getSampleMetaErrors(form, values)).toEqual({});
+        expect(toSampleMeta(form, values)).toEqual({ ...values, readLength: 150 });
+        expect(() => toSampleMeta(form, { ...values, sampleType: '' })).toThrow(
+            'Failed validation'
+        );
+    });
+});
@@ -0,0 +1,175 @@
+import axios from 'axios';
+import { capi } from '$lib/apiClient';
+import {
+    coerceOptionsForValidation,
+    compile,
+    getDefaultOptions,
+    getFieldErrors,
+    getParameterFields,
+    validate
+} from '$lib/schema';
+import { formatCollectionDate } from '$lib/sampleSheet';
+import { COLLECTION_LOCATION_SCHEMA } from '$lib/location';
+import type { AnySchema, ValidateFunction } from 'ajv';
+import type { ParameterField } from '$lib/schema';
+import type { SampleMeta } from '$lib/stream';
+
+/**
+ * The sample metadata schema of buckets that do not serve their own. It
+ * describes the fields the upload form has always collected.
+ */
+export const DEFAULT_SAMPLE_META_SCHEMA = {
+    type: 'object',
+    properties: {
+        sampleId: {
+            type: 'string',
+            title: 'Sample ID',
+            description: 'Letters, digits, ".", "_" and "-"; names the archive',
+            pattern: '^[A-Za-z0-9._-]+$'
+        },
+        sampleType: { type: 'string', title: 'Sample Type' },
+        sampleMatrix: { type: 'string', title: 'Sample Matrix' },
+        sampleCollectionLocation: {
+            ...COLLECTION_LOCATION_SCHEMA,
+            title: 'Sample Collection Location'
+        },
+        sampleCollectionDate: {
+            type: 'string',
+            title: 'Sample Collection Date',
+            format: 'date-time'
+        }
+    },
+    required: ['sampleId', 'sampleType', 'sampleMatrix', 'sampleCollectionDate']
+};
+
+/** A sample metadata schema, resolved into form fields and a validator */
+export interface SampleMetaForm {
+    fields: ParameterField[];
+    validator: ValidateFunction;
+}
+
+/**
+ * Get the sample metadata schema of a bucket. Buckets without a schema of
+ * their own (404) get `DEFAULT_SAMPLE_META_SCHEMA`.
+ *
+ * @param baseUrl - the API base URL
+ * @param bucket - the destination bucket
+ * @returns the JSON Schema that `meta.json` must satisfy
+ */
+export async function getSampleMetaSchema(baseUrl: string, bucket: string): Promise<AnySchema> {
+    const url = `${baseUrl}/objstorage/metaschema`;
+    const params = { bucket };
+    try {
+        const response = await capi.get(url, { params });
+        return response.data;
+    } catch (err) {
+        if (axios.isAxiosError(err) && err.response?.status === 404) {
+            return DEFAULT_SAMPLE_META_SCHEMA;
+        }
+        throw err;
+    }
+}
+
+/**
+ * Resolve a sample metadata schema into the fields of the upload form.
+ *
+ * @param schema - the sample metadata schema
+ * @returns the form fields and the compiled validator
+ * @throws if the schema does not define `sampleId`, which names the archive
+ */
+export async function resolveSampleMetaForm(schema: AnySchema): Promise<SampleMetaForm> {
+    const fields = await getParameterFields(schema);
+    if (!fields.some((field) => field.key === 'sampleId')) {
+        throw new Error('The sample metadata schema does not define sampleId');
+    }
+    return { fields, validator: compile(schema) };
+}
+
+/**
+ * Whether a field holds a date, entered with a date picker
+ *
+ * @param field - the form field
+ */
+export function isDateField(field: ParameterField): boolean {
+    return field.schema.format === 'date' || field.schema.format === 'date-time';
+}
+
+/**
+ * Whether a field holds a `CollectionLocation`, entered with the location picker
+ *
+ * @param field - the form field
+ */
+export function isLocationField(field: ParameterField): boolean {
+    return field.schema.type === 'object' && field.schema.format === 'location';
+}
+
+/**
+ * Format a date picker value (`YYYY-MM-DD`) for a date field: as is for
+ * `date`, and as a UTC timestamp like `2025-08-15T00:00:00.000+00:00` for
+ * `date-time`.
+ *
+ * @param field - the date field
+ * @param value - the date picker value
+ */
+export function formatDateValue(field: ParameterField, value: string): string {
+    if (field.schema.format === 'date' || !value) {
+        return value;
+    }
+    return formatCollectionDate(value) ?? '';
+}
+
+/**
+ * The initial form values: schema defaults, and today for date fields.
+ *
+ * @param form - the resolved sample metadata form
+ */
+export function getSampleMetaDefaults(form: SampleMetaForm): Record<string, unknown> {
+    const values = getDefaultOptions(form.fields);
+    const today = new Date().toISOString().slice(0, 10);
+
+    for (const field of form.fields) {
+        if (isDateField(field) && values[field.key] === '') {
+            values[field.key] = formatDateValue(field, today);
+        }
+    }
+
+    return values;
+}
+
+/**
+ * Validate sample metadata against the schema.
+ *
+ * @param form - the resolved sample metadata form
+ * @param values - the form values, or metadata from elsewhere (e.g. a sample sheet)
+ * @returns the error message per field key; empty when the metadata is valid
+ */
+export function getSampleMetaErrors(
+    form: SampleMetaForm,
+    values: Record<string, unknown>
+): Record<string, string> {
+    const typedData = coerceOptionsForValidation(form.fields, values);
+    if (form.validator(typedData)) {
+        return {};
+    }
+
+    const errors = getFieldErrors(form.validator.errors);
+    for (const field of form.fields) {
+        // The picker explains which part is wrong; the schema error would not
+        if (isLocationField(field) && errors[field.key] && errors[field.key] !== 'is required') {
+            errors[field.key] = 'is not a valid location';
+        }
+    }
+    return errors;
+}
+
+/**
+ * Turn valid form values into the metadata written to `meta.json`.
+ *
+ * @param form - the resolved sample metadata form
+ * @param values - the form values
+ * @returns the sample metadata
+ * @throws if the values do not satisfy the schema
+ */
+export function toSampleMeta(form: SampleMetaForm, values: Record<string, unknown>): SampleMeta {
+    return validate<SampleMeta>(form.validator, coerceOptionsForValidation(form.fields, values));
+}
@@ -0,0 +1,182 @@
+import { beforeAll, describe, expect, it } from 'vitest';
+import { loadLocationReference } from './location';
+import {
+    detectDelimiter,
+    formatCollectionDate,
+    getUnmatchedFiles,
+    matchSampleSheetFiles,
+    parseDelimited,
+    parseSampleSheet
+} from './sampleSheet';
+import type { LocationReference } from './location';
+
+const header = 'sample_id,sample_type,sample_matrix,collection_location,collection_date,fastq';
+
+let locations: LocationReference;
+
+beforeAll(async () => {
+    locations = await loadLocationReference();
+});
+
+describe('parseDelimited', () => {
+    it('handles quoted fields with delimiters, quotes and newlines', () => {
+        expect(parseDelimited('a,"b,c","say ""hi""","multi\nline"\r\nd,e,f,g\n', ',')).toEqual([
+            ['a', 'b,c', 'say "hi"', 'multi\nline'],
+            ['d', 'e', 'f', 'g']
+        ]);
+    });
+});
+
+describe('detectDelimiter', () => {
+    it('uses the file extension, then the header line', () => {
+        expect(detectDelimiter('a,b', 'sheet.tsv')).toBe('\t');
+        expect(detectDelimiter('a\tb\tc', 'sheet.csv')).toBe(',');
+        expect(detectDelimiter('a\tb\tc\nd,e')).toBe('\t');
+        expect(detectDelimiter('a,b,c')).toBe(',');
+    });
+});
+
+describe('formatCollectionDate', () => {
+    it('formats dates like the upload form', () => {
+        expect(formatCollectionDate('2025-08-15')).toBe('2025-08-15T00:00:00.000+00:00');
+        expect(formatCollectionDate('2025-08-15T14:36:28.024Z')).toBe(
+            '2025-08-15T14:36:28.024+00:00'
+        );
+        expect(formatCollectionDate('last tuesday')).toBeUndefined();
+    });
+});
+
+describe('parseSampleSheet', () => {
+    it('reads one sample per row with header aliases and file lists', () => {
+        const sheet = parseSampleSheet(
+            [
+                header,
+                'S1,wastewater,influent,us-ga,2025-08-15,S1_R1.fastq.gz;S1_R2.fastq.gz',
+                '',
+                'S2,clinical,swab,,2025-08-16,data/S2.fastq'
+            ].join('\n'),
+            'samples.csv',
+            locations
+        );
+
+        expect(sheet.errors).toEqual([]);
+        expect(sheet.rows).toHaveLength(2);
+        expect(sheet.rows[0]).toMatchObject({
+            line: 2,
+            meta: {
+                sampleId: 'S1',
+                sampleType: 'wastewater',
+                sampleMatrix: 'influent',
+                sampleCollectionLocation: {
+                    country: 'US',
+                    subdivision: 'US-GA',
+                    display: 'Georgia, United States'
+                },
+                sampleCollectionDate: '2025-08-15T00:00:00.000+00:00'
+            },
+            fileNames: ['S1_R1.fastq.gz', 'S1_R2.fastq.gz'],
+            errors: []
+        });
+        expect(sheet.rows[1]).toMatchObject({ line: 4, fileNames: ['S2.fastq'], errors: [] });
+        expect(sheet.rows[1].meta).not.toHaveProperty('sampleCollectionLocation');
+    });
+
+    it('reads nf-core style TSV sheets with one column per read', () => {
+        const sheet = parseSampleSheet(
+            'sample\ttype\tmatrix\tdate\tfastq_1\tfastq_2\nS1\tt\tm\t2025-01-02\ta_1.fastq\ta_2.fastq\n',
+            'samples.tsv',
+            locations
+        );
+
+        expect(sheet.rows[0].fileNames).toEqual(['a_1.fastq', 'a_2.fastq']);
+        expect(sheet.rows[0].errors).toEqual([]);
+    });
+
+    it('reads locations from ISO 3166 codes, localities and coordinates', () => {
+        const sheet = parseSampleSheet(
+            [
+                'sample_id,type,matrix,date,location,locality,lat,lon,fastq',
+                'S1,t,m,2025-01-01,FR,Lyon,45.76,4.84,a.fastq',
+                'S2,t,m,2025-01-01,"Atlanta, GA",,,,b.fastq',
+                'S3,t,m,2025-01-01,US-GA,,95,,c.fastq',
+                'S4,t,m,2025-01-01,,Atlanta,,,d.fastq'
+            ].join('\n'),
+            'samples.csv',
+            locations
+        );
+
+        expect(sheet.rows[0].errors).toEqual([]);
+        expect(sheet.rows[0].meta.sampleCollectionLocation).toEqual({
+            country: 'FR',
+            locality: 'Lyon',
+            latitude: 45.76,
+            longitude: 4.84,
+            display: 'Lyon, France'
+        });
+        expect(sheet.rows[1].errors).toEqual([
+            'Location "Atlanta, GA" is not an ISO 3166 country or subdivision code, e.g. US or US-GA'
+        ]);
+        expect(sheet.rows[2].errors).toEqual([
+            'Latitude must be a number from -90 to 90',
+            'Longitude is required with a latitude'
+        ]);
+        expect(sheet.rows[3].errors).toEqual([
+            'A location code is required with a locality or coordinates'
+        ]);
+    });
+
+    it('reports missing columns for the whole sheet', () => {
+        expect(
+            parseSampleSheet('sample_id,fastq\nS1,a.fastq', 'samples.csv', locations).errors
+        ).toEqual(['Missing column(s): sampleType, sampleMatrix, sampleCollectionDate']);
+    });
+
+    it('reports row-level errors', () => {
+        const sheet = parseSampleSheet(
+            [
+                header,
+                'S 1,,matrix,,not a date,reads.bam',
+                'S2,type,matrix,,2025-01-01,',
+                'S2,type,matrix,,2025-01-01,b.fastq'
+            ].join('\n'),
+            'samples.csv',
+            locations
+        );
+
+        expect(sheet.rows[0].errors).toEqual([
+            'Sample ID "S 1" may only contain letters, digits, ".", "_" and "-"',
+            'Sample type is required',
+            'Collection date "not a date" is not a valid date',
+            'reads.bam is not a *.fastq or *.fastq.gz file'
+        ]);
+        expect(sheet.rows[1].errors).toEqual(['At least one FASTQ file is required']);
+        expect(sheet.rows[2].errors).toEqual(['Sample ID S2 is already used on line 3']);
+    });
+});
+
+describe('matchSampleSheetFiles', () => {
+    it('matches files by name and reports missing or shared files', () => {
+        const sheet = parseSampleSheet(
+            [
+                header,
+                'S1,t,m,,2025-01-01,a_R1.fastq.gz;a_R2.fastq.gz',
+                'S2,t,m,,2025-01-01,b.fastq.gz',
+                'S3,t,m,,2025-01-01,a_R1.fastq.gz'
+            ].join('\n'),
+            'samples.csv',
+            locations
+        );
+        const files = ['a_R1.fastq.gz', 'a_R2.fastq.gz', 'extra.fastq'].map(
+            (name) => new File(['@r'], name)
+        );
+
+        const matched = matchSampleSheetFiles(sheet, files);
+
+        expect(matched.rows[0].files).toEqual(files.slice(0, 2));
+        expect(matched.rows[0].errors).toEqual([]);
+        expect(matched.rows[1].errors).toEqual(['b.fastq.gz was not selected']);
+        expect(matched.rows[2].errors).toEqual(['a_R1.fastq.gz is already used on line 2']);
+        expect(sheet.rows[1].errors).toEqual([]);
+        expect(getUnmatchedFiles(sheet, files).map((f) => f.name)).toEqual(['extra.fastq']);
+    });
+});
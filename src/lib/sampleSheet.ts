@@ -0,0 +1,355 @@
+import { getLocationErrors, parseLocationCode, toCollectionLocation } from '$lib/location';
+import type { CollectionLocation, LocationReference } from '$lib/location';
+import type { SampleMeta } from '$lib/stream';
+
+/**
+ * Sample sheet import.
+ *
+ * A sample sheet is a CSV or TSV file with one row per sample: the sample
+ * metadata written to `meta.json`, and the names of the FASTQ files that make
+ * up the sample. Rows are matched to the selected files by file name, and each
+ * valid row becomes its own `sample-<id>.tar` upload.
+ */
+export interface SampleSheetMeta extends SampleMeta {
+    sampleType: string;
+    sampleMatrix: string;
+    sampleCollectionLocation?: CollectionLocation;
+    sampleCollectionDate: string;
+}
+
+export interface SampleSheetRow {
+    /** 1-based line number in the sheet, for error messages */
+    line: number;
+    meta: SampleSheetMeta;
+    /** FASTQ file names listed for the sample */
+    fileNames: string[];
+    /** The selected files matching `fileNames` */
+    files: File[];
+    /** Why the row cannot be uploaded; empty when it is valid */
+    errors: string[];
+}
+
+export interface SampleSheet {
+    rows: SampleSheetRow[];
+    /** Problems with the sheet as a whole, e.g. a missing column */
+    errors: string[];
+}
+
+type Column = keyof SampleSheetMeta | 'locality' | 'latitude' | 'longitude' | 'files';
+
+/**
+ * Accepted header names per column, compared lowercase without spaces,
+ * dashes or underscores.
+ */
+const COLUMN_ALIASES: Record<Column, string[]> = {
+    sampleId: ['sampleid', 'sample', 'id'],
+    sampleType: ['sampletype', 'type'],
+    sampleMatrix: ['samplematrix', 'matrix'],
+    sampleCollectionLocation: ['samplecollectionlocation', 'collectionlocation', 'location'],
+    locality: ['locality', 'city', 'site'],
+    latitude: ['latitude', 'lat'],
+    longitude: ['longitude', 'lon', 'lng', 'long'],
+    sampleCollectionDate: ['samplecollectiondate', 'collectiondate', 'date'],
+    files: ['files', 'fastq', 'fastqs', 'fastqfiles', 'filenames', 'fastq1', 'fastq2']
+};
+
+const REQUIRED_COLUMNS: Column[] = [
+    'sampleId',
+    'sampleType',
+    'sampleMatrix',
+    'sampleCollectionDate',
+    'files'
+];
+
+/** Characters allowed in a sample ID, which becomes part of the S3 key */
+const SAMPLE_ID_PATTERN = /^[A-Za-z0-9._-]+$/;
+
+/**
+ * Pick the delimiter of a sample sheet: tab for `.tsv` files, otherwise
+ * whichever of tab and comma appears more often in the header line.
+ *
+ * @param text - the sheet contents
+ * @param filename - the sheet file name
+ */
+export function detectDelimiter(text: string, filename = ''): ',' | '\t' {
+    if (filename.toLowerCase().endsWith('.tsv')) return '\t';
+    if (filename.toLowerCase().endsWith('.csv')) return ',';
+
+    const header = text.split(/\r?\n/, 1)[0] ?? '';
+    const tabs = header.split('\t').length;
+    const commas = header.split(',').length;
+    return tabs > commas ? '\t' : ',';
+}
+
+/**
+ * Split delimited text into records of fields. Fields may be quoted with
+ * double quotes, in which case they can contain the delimiter, newlines and
+ * doubled (`""`) quotes.
+ *
+ * @param text - the delimited text
+ * @param delimiter - the field delimiter
+ * @returns one array of fields per record, with blank lines kept as `['']`
+ */
+export function parseDelimited(text: string, delimiter: string): string[][] {
+    const records: string[][] = [];
+    let record: string[] = [];
+    let field = '';
+    let isQuoted = false;
+
+    for (let i = 0; i < text.length; i++) {
+        const c = text[i];
+
+        if (isQuoted) {
+            if (c === '"' && text[i + 1] === '"') {
+                field += '"';
+                i++;
+            } else if (c === '"') {
+                isQuoted = false;
+            } else {
+                field += c;
+            }
+        } else if (c === '"' && field === '') {
+            isQuoted = true;
+        } else if (c === delimiter) {
+            record.push(field);
+            field = '';
+        } else if (c === '\n' || c === '\r') {
+            if (c === '\r' && text[i + 1] === '\n') i++;
+            record.push(field);
+            records.push(record);
+            record = [];
+            field = '';
+        } else {
+            field += c;
+        }
+    }
+
+    if (field !== '' || record.length > 0) {
+        record.push(field);
+        records.push(record);
+    }
+
+    return records;
+}
+
+function normalizeHeader(header: string): string {
+    return header.toLowerCase().replace(/[\s_-]/g, '');
+}
+
+function getColumns(header: string[]): Map<Column, number[]> {
+    const columns = new Map<Column, number[]>();
+    header.forEach((name, index) => {
+        const normalized = normalizeHeader(name);
+        for (const [column, aliases] of Object.entries(COLUMN_ALIASES) as [Column, string[]][]) {
+            if (aliases.includes(normalized)) {
+                columns.set(column, [...(columns.get(column) ?? []), index]);
+                return;
+            }
+        }
+    });
+    return columns;
+}
+
+/**
+ * Convert a collection date to the format stored in `meta.json`
+ * (e.g. `2025-08-15T00:00:00.000+00:00`). Date-only values are read as UTC.
+ *
+ * @param value - the date from the sheet
+ * @returns the formatted date, or undefined if it is not a date
+ */
+export function formatCollectionDate(value: string): string | undefined {
+    const date = /^\d{4}-\d{2}-\d{2}$/.test(value)
+        ? new Date(`${value}T00:00:00Z`)
+        : new Date(value);
+    if (Number.isNaN(date.getTime())) {
+        return undefined;
+    }
+    return date.toISOString().replace('Z', '+00:00');
+}
+
+/**
+ * Read the location columns of a row: an ISO 3166 country or subdivision code
+ * (`US`, `US-GA`), and optionally a locality and coordinates.
+ *
+ * @returns the location, if any, and why it is invalid
+ */
+function readLocation(
+    parts: { code: string; locality: string; latitude: string; longitude: string },
+    locations: LocationReference
+): { location?: CollectionLocation; errors: string[] } {
+    const { code, ...details } = parts;
+    if (!code) {
+        const hasDetails = Object.values(details).some(Boolean);
+        return {
+            errors: hasDetails ? ['A location code is required with a locality or coordinates'] : []
+        };
+    }
+
+    const area = parseLocationCode(code, locations);
+    if (!area) {
+        return {
+            errors: [
+                `Location "${code}" is not an ISO 3166 country or subdivision code, e.g. US or US-GA`
+            ]
+        };
+    }
+
+    const input = { ...area, ...details };
+    const errors = Object.values(getLocationErrors(input, locations));
+    return errors.length > 0
+        ? { errors }
+        : { location: toCollectionLocation(input, locations), errors };
+}
+
+function validateRow(row: SampleSheetRow, rawDate: string) {
+    const { meta } = row;
+
+    if (!meta.sampleId) {
+        row.errors.push('Sample ID is required');
+    } else if (!SAMPLE_ID_PATTERN.test(meta.sampleId)) {
+        row.errors.push(
+            `Sample ID "${meta.sampleId}" may only contain letters, digits, ".", "_" and "-"`
+        );
+    }
+    if (!meta.sampleType) row.errors.push('Sample type is required');
+    if (!meta.sampleMatrix) row.errors.push('Sample matrix is required');
+
+    if (!rawDate) {
+        row.errors.push('Collection date is required');
+    } else if (!meta.sampleCollectionDate) {
+        row.errors.push(`Collection date "${rawDate}" is not a valid date`);
+    }
+
+    if (row.fileNames.length === 0) {
+        row.errors.push('At least one FASTQ file is required');
+    }
+    for (const name of row.fileNames) {
+        if (!(name.endsWith('.fastq.gz') || name.endsWith('.fastq'))) {
+            row.errors.push(`${name} is not a *.fastq or *.fastq.gz file`);
+        }
+    }
+}
+
+/**
+ * Parse and validate a sample sheet.
+ *
+ * File names may be listed in one column separated by `;`, `|` or
+ * whitespace, or spread over several columns (e.g. `fastq_1`, `fastq_2`).
+ * Only a file's base name is used, so paths in the sheet are ignored.
+ *
+ * @param text - the sheet contents
+ * @param filename - the sheet file name, used to pick the delimiter
+ * @param locations - the ISO 3166 reference data, to check location codes
+ */
+export function parseSampleSheet(
+    text: string,
+    filename: string,
+    locations: LocationReference
+): SampleSheet {
+    const records = parseDelimited(text.replace(/^\uFEFF/, ''), detectDelimiter(text, filename));
+    const [header = [], ...body] = records;
+    const columns = getColumns(header.map((h) => h.trim()));
+
+    const missing = REQUIRED_COLUMNS.filter((column) => !columns.has(column));
+    if (missing.length > 0) {
+        return { rows: [], errors: [`Missing column(s): ${missing.join(', ')}`] };
+    }
+
+    const rows: SampleSheetRow[] = [];
+    const seenIds = new Map<string, number>();
+
+    body.forEach((record, index) => {
+        if (record.every((field) => field.trim() === '')) return;
+
+        const get = (column: Column) =>
+            (columns.get(column) ?? []).map((i) => (record[i] ?? '').trim());
+        const [rawDate = ''] = get('sampleCollectionDate');
+        const { location, errors } = readLocation(
+            {
+                code: get('sampleCollectionLocation')[0] ?? '',
+                locality: get('locality')[0] ?? '',
+                latitude: get('latitude')[0] ?? '',
+                longitude: get('longitude')[0] ?? ''
+            },
+            locations
+        );
+
+        const row: SampleSheetRow = {
+            line: index + 2,
+            meta: {
+                sampleId: get('sampleId')[0] ?? '',
+                sampleType: get('sampleType')[0] ?? '',
+                sampleMatrix: get('sampleMatrix')[0] ?? '',
+                ...(location && { sampleCollectionLocation: location }),
+                sampleCollectionDate: formatCollectionDate(rawDate) ?? ''
+            },
+            fileNames: get('files')
+                .flatMap((value) => value.split(/[;|\s]+/))
+                .filter(Boolean)
+                .map((name) => name.split(/[\\/]/).pop() ?? name),
+            files: [],
+            errors
+        };
+        validateRow(row, rawDate);
+
+        const firstLine = seenIds.get(row.meta.sampleId);
+        if (row.meta.sampleId && firstLine !== undefined) {
+            row.errors.push(`Sample ID ${row.meta.sampleId} is already used on line ${firstLine}`);
+        } else if (row.meta.sampleId) {
+            seenIds.set(row.meta.sampleId, row.line);
+        }
+
+        rows.push(row);
+    });
+
+    if (rows.length === 0) {
+        return { rows, errors: ['The sample sheet has no samples'] };
+    }
+    return { rows, errors: [] };
+}
+
+/**
+ * Match the rows of a sample sheet to the selected files by file name.
+ *
+ * Rows listing a file that was not selected, or a file already claimed by an
+ * earlier row, get an error.
+ *
+ * @param sheet - the parsed sample sheet
+ * @param files - the selected FASTQ files
+ * @returns a new sheet with `files` filled in
+ */
+export function matchSampleSheetFiles(sheet: SampleSheet, files: File[]): SampleSheet {
+    const byName = new Map(files.map((file) => [file.name, file]));
+    const claimedBy = new Map<string, number>();
+
+    const rows = sheet.rows.map((row) => {
+        const matched: SampleSheetRow = { ...row, files: [], errors: [...row.errors] };
+
+        for (const name of row.fileNames) {
+            const file = byName.get(name);
+            const owner = claimedBy.get(name);
+            if (!file) {
+                matched.errors.push(`${name} was not selected`);
+            } else if (owner !== undefined) {
+                matched.errors.push(`${name} is already used on line ${owner}`);
+            } else {
+                claimedBy.set(name, row.line);
+                matched.files.push(file);
+            }
+        }
+        return matched;
+    });
+
+    return { ...sheet, rows };
+}
+
+/**
+ * Get the selected files that no row of the sheet refers to.
+ *
+ * @param sheet - the parsed sample sheet
+ * @param files - the selected FASTQ files
+ */
+export function getUnmatchedFiles(sheet: SampleSheet, files: File[]): File[] {
+    const names = new Set(sheet.rows.flatMap((row) => row.fileNames));
+    return files.filter((file) => !names.has(file.name));
+}
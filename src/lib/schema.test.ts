@@ -1,10 +1,21 @@
 import { describe, expect, it } from 'vitest';
 import {
-    UnsupportedSchemaError,
     coerceOptionsForValidation,
+    compile,
+    compileSelected,
+    describeFormat,
+    getActiveVariantGroups,
     getDefaultOptions,
-    getParameterFields
+    getFieldErrors,
+    getParameterFields,
+    getParameterForm,
+    getSelectedFields,
+    getSelectedSchema,
+    getStringWidget,
+    groupFields,
+    matchVariantSelection
 } from './schema';
+import type { ParameterField } from './schema';
 
 describe('schema utilities', () => {
     it('extracts fields from root properties and local allOf references', async () => {
@@ -49,16 +60,210 @@ describe('schema utilities', () => {
         ]);
     });
 
-    it('rejects branch schemas that need explicit UI selection', async () => {
-        await expect(
-            getParameterFields({
-                type: 'object',
-                oneOf: [
-                    { properties: { mode: { const: 'a' } } },
-                    { properties: { mode: { const: 'b' } } }
+    it('keeps the groups of an nf-core schema on its fields', async () => {
+        const fields = await getParameterFields({
+            $schema: 'https://json-schema.org/draft/2020-12/schema',
+            type: 'object',
+            $defs: {
+                input_output_options: {
+                    title: 'Input/output options',
+                    description: 'Where the data comes from and goes to',
+                    type: 'object',
+                    required: ['input'],
+                    properties: {
+                        input: { type: 'string', help_text: 'A CSV sample sheet.' },
+                        outdir: { type: 'string' }
+                    }
+                },
+                generic_options: {
+                    title: 'Generic options',
+                    type: 'object',
+                    properties: { help: { type: 'boolean', hidden: true } }
+                }
+            },
+            allOf: [
+                { $ref: '#/$defs/input_output_options' },
+                { $ref: '#/$defs/generic_options' },
+                { properties: { '--extra': { type: 'string' } } }
+            ]
+        });
+
+        const inputOutput = {
+            key: 'allOf/0',
+            title: 'Input/output options',
+            description: 'Where the data comes from and goes to'
+        };
+        expect(fields.map((field) => [field.key, field.group])).toEqual([
+            ['input', inputOutput],
+            ['outdir', inputOutput],
+            ['help', { key: 'allOf/1', title: 'Generic options', description: undefined }],
+            ['--extra', undefined]
+        ]);
+        expect(fields[0]).toEqual(expect.objectContaining({ required: true }));
+        expect(
+            groupFields(fields).map((section) => [
+                section.group?.title,
+                section.fields.map((field) => field.key)
+            ])
+        ).toEqual([
+            ['Input/output options', ['input', 'outdir']],
+            ['Generic options', ['help']],
+            [undefined, ['--extra']]
+        ]);
+    });
+
+    it('keeps anyOf/oneOf branches as variant groups with their own fields', async () => {
+        const form = await getParameterForm({
+            type: 'object',
+            properties: { '--outdir': { type: 'string' } },
+            allOf: [
+                {
+                    title: 'Reference',
+                    oneOf: [
+                        {
+                            title: 'Built-in genome',
+                            required: ['--genome'],
+                            properties: { '--genome': { enum: ['GRCh38', 'R64-1-1'] } }
+                        },
+                        {
+                            required: ['--fasta'],
+                            properties: {
+                                '--source': { const: 'custom' },
+                                '--fasta': { type: 'string' }
+                            }
+                        }
+                    ]
+                }
+            ]
+        });
+
+        expect(getActiveVariantGroups(form, {})).toEqual([
+            expect.objectContaining({
+                key: 'allOf/0/oneOf',
+                keyword: 'oneOf',
+                label: 'Reference',
+                variants: [
+                    expect.objectContaining({ title: 'Built-in genome' }),
+                    expect.objectContaining({ title: 'custom' })
                 ]
             })
-        ).rejects.toBeInstanceOf(UnsupportedSchemaError);
+        ]);
+
+        expect(getSelectedFields(form, {}).map((field) => [field.key, field.required])).toEqual([
+            ['--outdir', false],
+            ['--genome', true]
+        ]);
+
+        const custom = { 'allOf/0/oneOf': 1 };
+        expect(getSelectedFields(form, custom).map((field) => field.key)).toEqual([
+            '--outdir',
+            '--source',
+            '--fasta'
+        ]);
+        expect(getDefaultOptions(getSelectedFields(form, custom))).toEqual({
+            '--outdir': '',
+            '--source': 'custom',
+            '--fasta': ''
+        });
+
+        // Only the chosen branch is validated
+        const isValid = compile(getSelectedSchema(form, custom));
+        expect(compileSelected(form, custom)).toBe(compileSelected(form, { ...custom }));
+        expect(isValid({ '--source': 'custom' })).toBe(false);
+        expect(getFieldErrors(isValid.errors)).toEqual({ '--fasta': 'is required' });
+        expect(isValid({ '--source': 'custom', '--fasta': 's3://refs/genome.fa' })).toBe(true);
+    });
+
+    it('applies if/then/else and dependent fields only while their conditions hold', async () => {
+        const form = await getParameterForm({
+            type: 'object',
+            properties: {
+                '--run_kraken': { type: 'boolean' },
+                '--kraken2_db': { type: 'string' },
+                '--trim': { type: 'boolean' }
+            },
+            if: { properties: { '--run_kraken': { const: true } }, required: ['--run_kraken'] },
+            then: { required: ['--kraken2_db'] },
+            else: { properties: { '--skip_reason': { type: 'string' } } },
+            dependentRequired: { '--trim': ['--adapter'] },
+            dependentSchemas: {
+                '--trim': { properties: { '--adapter': { type: 'string' } } }
+            }
+        });
+
+        const describe = (data?: Record<string, unknown>) =>
+            getSelectedFields(form, {}, data).map((field) => [field.key, field.required]);
+
+        expect(form.conditions.map((condition) => condition.key)).toEqual([
+            'if',
+            'dependentRequired/--trim',
+            'dependentSchemas/--trim'
+        ]);
+        expect(describe()).toEqual([
+            ['--run_kraken', false],
+            ['--kraken2_db', false],
+            ['--trim', false],
+            ['--skip_reason', false],
+            ['--adapter', false]
+        ]);
+        expect(describe({ '--run_kraken': true })).toEqual([
+            ['--run_kraken', false],
+            ['--kraken2_db', true],
+            ['--trim', false]
+        ]);
+        expect(describe({ '--run_kraken': false, '--trim': true })).toEqual([
+            ['--run_kraken', false],
+            ['--kraken2_db', false],
+            ['--trim', false],
+            ['--skip_reason', false],
+            ['--adapter', true]
+        ]);
+
+        const isValid = compile(form.schema);
+        expect(isValid({ '--trim': true })).toBe(false);
+        expect(getFieldErrors(isValid.errors)).toEqual({
+            '--adapter': 'is required when --trim is set'
+        });
+        expect(isValid({ '--trim': true, '--adapter': 'AGATCGGAAGAGC' })).toBe(true);
+    });
+
+    it('marks fields required by an anyOf branch that only lists required keys', async () => {
+        const form = await getParameterForm({
+            type: 'object',
+            properties: {
+                '--input': { type: 'string' },
+                '--sample_sheet': { type: 'string' }
+            },
+            anyOf: [{ required: ['--input'] }, { required: ['--sample_sheet'] }]
+        });
+
+        expect(form.variantGroups[0].variants.map((variant) => variant.title)).toEqual([
+            'Option 1',
+            'Option 2'
+        ]);
+        expect(
+            getSelectedFields(form, { anyOf: 1 }).map((field) => [field.key, field.required])
+        ).toEqual([
+            ['--input', false],
+            ['--sample_sheet', true]
+        ]);
+        expect(await getParameterFields({ anyOf: [{ properties: { a: {} } }] })).toEqual([
+            expect.objectContaining({ key: 'a' })
+        ]);
+    });
+
+    it('matches the variants to existing options', async () => {
+        const form = await getParameterForm({
+            type: 'object',
+            oneOf: [
+                { properties: { mode: { const: 'reads' }, '--reads': { type: 'string' } } },
+                { properties: { mode: { const: 'assembly' }, '--assembly': { type: 'string' } } }
+            ]
+        });
+
+        expect(matchVariantSelection(form, { '--assembly': 'a.fa' })).toEqual({ oneOf: 1 });
+        expect(matchVariantSelection(form, { mode: 'assembly' })).toEqual({ oneOf: 1 });
+        expect(matchVariantSelection(form, {})).toEqual({ oneOf: 0 });
     });
 
     it('builds default option state from field metadata', () => {
@@ -130,4 +335,119 @@ describe('schema utilities', () => {
             '-profile': 'aws'
         });
     });
+
+    it('seeds and coerces list and nested object fields', () => {
+        const fields: ParameterField[] = [
+            {
+                key: '--databases',
+                label: 'databases',
+                schema: { type: 'array' as const, items: { type: 'integer' as const } },
+                required: false,
+                readonly: false
+            },
+            {
+                key: '--resources',
+                label: 'resources',
+                schema: {
+                    type: 'object' as const,
+                    required: ['cpus'],
+                    properties: {
+                        cpus: { type: 'integer' as const, default: 2 },
+                        queue: { type: 'string' as const }
+                    }
+                },
+                required: false,
+                readonly: false
+            },
+            {
+                key: 'location',
+                label: 'location',
+                schema: {
+                    type: 'object' as const,
+                    format: 'location',
+                    properties: { country: { type: 'string' as const } }
+                },
+                required: false,
+                readonly: false
+            }
+        ];
+
+        expect(getDefaultOptions(fields)).toEqual({
+            '--databases': [],
+            '--resources': { cpus: 2, queue: '' },
+            location: ''
+        });
+        expect(
+            coerceOptionsForValidation(fields, {
+                '--databases': ['1', '', '3'],
+                '--resources': { cpus: '8', queue: '' },
+                location: { country: 'DE' }
+            })
+        ).toEqual({
+            '--databases': [1, 3],
+            '--resources': { cpus: 8 },
+            location: { country: 'DE' }
+        });
+        expect(
+            coerceOptionsForValidation(fields, {
+                '--databases': [''],
+                '--resources': { cpus: '', queue: '' }
+            })
+        ).toEqual({});
+    });
+
+    it('checks string formats, including remote paths', () => {
+        const isValid = compile({
+            type: 'object',
+            properties: {
+                date: { type: 'string', format: 'date' },
+                time: { type: 'string', format: 'date-time' },
+                url: { type: 'string', format: 'uri' },
+                email: { type: 'string', format: 'email' },
+                reads: { type: 'string', format: 's3-uri' },
+                outdir: { type: 'string', format: 'directory-path' }
+            }
+        });
+        const valid = {
+            date: '2025-08-15',
+            time: '2025-08-15T09:30:00Z',
+            url: 'https://example.org/data',
+            email: 'lab@example.org',
+            reads: 's3://cape-raw/sample-1/reads.tar',
+            outdir: 'https://results.example.org/run-1/'
+        };
+
+        expect(isValid(valid)).toBe(true);
+        expect(isValid({ ...valid, time: '2025-08-15T09:30' })).toBe(false);
+        expect(isValid({ ...valid, reads: 'cape-raw/sample-1' })).toBe(false);
+        expect(isValid({ ...valid, outdir: '/data/results' })).toBe(false);
+        expect(isValid({ ...valid, email: 'lab@' })).toBe(false);
+        expect(describeFormat('s3-uri')).toBe('an S3 URI, e.g. s3://bucket/key');
+        expect(describeFormat('ipv4')).toBe('in the ipv4 format');
+    });
+
+    it('picks the widget of a string field from its format and length', () => {
+        expect(getStringWidget({ type: 'string', format: 'date-time' })).toBe('date-time');
+        expect(getStringWidget({ type: 'string', format: 'email' })).toBe('email');
+        expect(getStringWidget({ type: 'string', format: 'file-path' })).toBe('path');
+        expect(getStringWidget({ type: 'string', maxLength: 2000 })).toBe('textarea');
+        expect(getStringWidget({ type: 'string', maxLength: 20 })).toBe('text');
+    });
+
+    it('keeps the first validation error of each field', () => {
+        const isValid = compile({
+            type: 'object',
+            required: ['--sample'],
+            properties: {
+                '--max_cpus': { type: 'integer', minimum: 1, multipleOf: 2 }
+            }
+        });
+
+        isValid({ '--max_cpus': -1 });
+
+        expect(getFieldErrors(isValid.errors)).toEqual({
+            '--sample': 'is required',
+            '--max_cpus': 'must be >= 1'
+        });
+    });
 });
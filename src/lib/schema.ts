@@ -1,4 +1,5 @@
 import Ajv from 'ajv';
+import nextVocabulary from 'ajv/dist/vocabularies/next';
 import type { AnySchema, ErrorObject, ValidateFunction } from 'ajv';
 
 const ajv = new Ajv({
@@ -6,19 +7,79 @@ const ajv = new Ajv({
     strict: false,
     validateSchema: false
 });
+// `dependentRequired` and `dependentSchemas` are not part of draft-07
+ajv.addVocabulary(nextVocabulary);
+
+/** What each string format checked by `compile` expects, to name in errors */
+const FORMAT_DESCRIPTIONS: Record<string, string> = {
+    date: 'a date (YYYY-MM-DD)',
+    'date-time': 'a date and time, e.g. 2025-08-15T09:30:00Z',
+    uri: 'a URL, e.g. https://example.org/data',
+    email: 'an email address',
+    's3-uri': 'an S3 URI, e.g. s3://bucket/key',
+    'file-path': 'a path starting with s3:// or https://',
+    'directory-path': 'a path starting with s3:// or https://',
+    path: 'a path starting with s3:// or https://'
+};
+
+// Stages run on AWS Batch, so paths must be remote rather than local
+const REMOTE_PATH = /^(s3:\/\/[a-z0-9][a-z0-9.-]{1,61}[a-z0-9]|https:\/\/[^\s/]+)(\/\S*)?$/;
+
+ajv.addFormat('date', {
+    type: 'string',
+    validate: (value) =>
+        /^\d{4}-\d{2}-\d{2}$/.test(value) && !Number.isNaN(Date.parse(`${value}T00:00:00Z`))
+});
+ajv.addFormat('date-time', {
+    type: 'string',
+    validate: (value) =>
+        /^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}(:\d{2}(\.\d+)?)?(Z|[+-]\d{2}:\d{2})$/i.test(value) &&
+        !Number.isNaN(Date.parse(value))
+});
+ajv.addFormat('uri', {
+    type: 'string',
+    validate: (value) => /^[a-z][a-z0-9+.-]*:\S+$/i.test(value) && URL.canParse(value)
+});
+ajv.addFormat('email', { type: 'string', validate: /^[^\s@]+@[^\s@]+\.[^\s@]+$/ });
+ajv.addFormat('s3-uri', {
+    type: 'string',
+    validate: /^s3:\/\/[a-z0-9][a-z0-9.-]{1,61}[a-z0-9](\/\S*)?$/
+});
+for (const format of ['file-path', 'directory-path', 'path']) {
+    ajv.addFormat(format, { type: 'string', validate: REMOTE_PATH });
+}
+
+/** Strings this long or longer are entered in a text area */
+const LONG_TEXT_LENGTH = 200;
 
 export type SchemaProperty = {
-    type?: 'string' | 'integer' | 'number' | 'boolean';
+    type?: 'string' | 'integer' | 'number' | 'boolean' | 'array' | 'object';
     title?: string;
     description?: string;
     default?: unknown;
     const?: unknown;
     enum?: unknown[];
+    format?: string;
+    pattern?: string;
+    minLength?: number;
+    maxLength?: number;
+    /** Longer nf-core help, shown on request */
+    help_text?: string;
+    /** An nf-core parameter only shown with the advanced parameters */
+    hidden?: boolean;
     minimum?: number;
     maximum?: number;
     min?: number;
     max?: number;
     step?: number;
+    /** The schema of every item of an array */
+    items?: SchemaProperty;
+    minItems?: number;
+    maxItems?: number;
+    uniqueItems?: boolean;
+    /** The fields of a nested object */
+    properties?: Record<string, SchemaProperty>;
+    required?: string[];
 };
 
 export type ParameterField = {
@@ -27,29 +88,102 @@ export type ParameterField = {
     schema: SchemaProperty;
     required: boolean;
     readonly: boolean;
+    /** The titled `allOf` part defining the field, e.g. an nf-core definition */
+    group?: ParameterGroup;
+};
+
+/**
+ * A titled `allOf` part of a schema. nf-core schemas define each section of
+ * parameters under `$defs`/`definitions` and list them in `allOf`.
+ */
+export type ParameterGroup = {
+    /** The path of the part in the schema, e.g. `allOf/0` */
+    key: string;
+    title: string;
+    description?: string;
+};
+
+/**
+ * The fields of a schema or of one of its variants. `required` also names
+ * fields defined elsewhere, e.g. an `anyOf` branch that only requires one of
+ * the parameters next to it.
+ */
+export type ParameterFieldSet = {
+    fields: ParameterField[];
+    required: string[];
+    variantGroups: ParameterVariantGroup[];
+    conditions: ParameterCondition[];
+};
+
+/**
+ * An `if`/`then`/`else`, `dependentRequired` entry or `dependentSchemas` entry.
+ * Its fields and `required` keys only apply while the values match `test`.
+ */
+export type ParameterCondition = {
+    /** The path of the keyword in the schema, e.g. `if` or `dependentRequired/--run_kraken` */
+    key: string;
+    /** The schema the values must match, or the parameter that must be set */
+    test: { schema: AnySchema } | { present: string };
+    then?: ParameterFieldSet;
+    else?: ParameterFieldSet;
+};
+
+export type ParameterVariant = ParameterFieldSet & {
+    title: string;
+};
+
+/**
+ * An `anyOf`/`oneOf` of a schema. The form shows one variant at a time, so the
+ * user picks it explicitly rather than the form guessing from the values.
+ */
+export type ParameterVariantGroup = {
+    /** The path of the keyword in the schema, e.g. `oneOf` or `allOf/1/anyOf` */
+    key: string;
+    keyword: 'anyOf' | 'oneOf';
+    label: string;
+    variants: ParameterVariant[];
+};
+
+/** A dereferenced parameters schema and its fields */
+export type ParameterForm = ParameterFieldSet & {
+    schema: AnySchema;
 };
 
+/** The chosen variant index per variant group key; groups left out use their first variant */
+export type VariantSelection = Record<string, number>;
+
 type ObjectSchema = {
+    title?: string;
+    description?: string;
     allOf?: unknown[];
     anyOf?: unknown[];
     oneOf?: unknown[];
     properties?: Record<string, SchemaProperty>;
     required?: string[];
+    if?: unknown;
+    then?: unknown;
+    else?: unknown;
+    dependentRequired?: Record<string, string[]>;
+    dependentSchemas?: Record<string, unknown>;
 };
 
+type CollectedSchema = {
+    properties: Record<string, SchemaProperty>;
+    required: Set<string>;
+    variantGroups: ParameterVariantGroup[];
+    conditions: ParameterCondition[];
+    /** The group of each field defined in a titled `allOf` part */
+    groups: Record<string, ParameterGroup>;
+};
+
+const VARIANT_KEYWORDS = ['anyOf', 'oneOf'] as const;
+
 type BufferShim = {
     isBuffer: (value: unknown) => boolean;
     from: (value: ArrayBuffer | ArrayLike<number> | string) => Uint8Array;
     alloc: (size: number) => Uint8Array;
 };
 
-export class UnsupportedSchemaError extends Error {
-    constructor(keyword: 'anyOf' | 'oneOf') {
-        super(`${keyword} schemas need an explicit UI choice before fields can be rendered`);
-        this.name = 'UnsupportedSchemaError';
-    }
-}
-
 function formatAjvErrors(errors: ErrorObject[] | null | undefined): string {
     if (!errors || errors.length === 0) {
         return 'Unknown validation error';
@@ -63,7 +197,83 @@ function formatAjvErrors(errors: ErrorObject[] | null | undefined): string {
         .join('; ');
 }
 
+/** The widget a string field is entered with */
+export type StringWidget = 'text' | 'textarea' | 'date' | 'date-time' | 'uri' | 'email' | 'path';
+
+/**
+ * Pick the widget of a string field from its `format`, or a text area for long
+ * text.
+ *
+ * @param schema - the field's schema
+ */
+export function getStringWidget(schema: SchemaProperty): StringWidget {
+    switch (schema.format) {
+        case 'date':
+        case 'date-time':
+        case 'uri':
+        case 'email':
+            return schema.format;
+        case 's3-uri':
+        case 'file-path':
+        case 'directory-path':
+        case 'path':
+            return 'path';
+    }
+    return (schema.maxLength ?? 0) >= LONG_TEXT_LENGTH ? 'textarea' : 'text';
+}
+
+/**
+ * Describe what a string format expects, e.g. `an email address`.
+ *
+ * @param format - the `format` of a schema
+ */
+export function describeFormat(format: string): string {
+    return FORMAT_DESCRIPTIONS[format] ?? `in the ${format} format`;
+}
+
+/**
+ * Map validation errors to the fields they belong to, keeping the first error
+ * per field. Messages are predicates to follow the field label, e.g.
+ * `is required` or `must be equal to one of the allowed values`; errors about
+ * the object as a whole are keyed by `''`.
+ *
+ * @param errors - the errors of a failed `ValidateFunction` call
+ * @returns the error message per field key
+ */
+export function getFieldErrors(errors: ErrorObject[] | null | undefined): Record<string, string> {
+    const fieldErrors: Record<string, string> = {};
+
+    for (const err of errors ?? []) {
+        // An `if` only reports that its branch failed; the branch's own errors follow
+        if (err.keyword === 'if') {
+            continue;
+        }
+
+        const isMissing = err.keyword === 'required' || err.keyword === 'dependentRequired';
+        const field = isMissing
+            ? String(err.params.missingProperty)
+            : err.instancePath.replace(/^\//, '').split('/')[0];
+        fieldErrors[field] ??=
+            err.keyword === 'dependentRequired'
+                ? `is required when ${err.params.property} is set`
+                : isMissing
+                  ? 'is required'
+                  : (err.message ?? 'is invalid');
+    }
+
+    return fieldErrors;
+}
+
+/**
+ * Compile a schema with the shared AJV instance.
+ *
+ * AJV keeps every schema it compiled under its `$id` and refuses another with
+ * the same one, so a schema loaded again (or changed since) replaces the last.
+ */
 export function compile(schema: AnySchema): ValidateFunction {
+    if (typeof schema === 'object' && typeof schema.$id === 'string') {
+        ajv.removeSchema(schema.$id);
+    }
     return ajv.compile(schema);
 }
 
@@ -75,9 +285,16 @@ export function validate<T = unknown>(isValid: ValidateFunction, obj: unknown):
     return obj as T;
 }
 
-export async function getParameterFields(schema: unknown): Promise<ParameterField[]> {
+/**
+ * Dereference a parameters schema and derive its fields, keeping every
+ * `anyOf`/`oneOf` as a variant group.
+ *
+ * @param schema - the JSON Schema of an object
+ * @returns the form; empty if `schema` is not an object
+ */
+export async function getParameterForm(schema: unknown): Promise<ParameterForm> {
     if (!schema || typeof schema !== 'object') {
-        return [];
+        return { schema: {}, fields: [], required: [], variantGroups: [], conditions: [] };
     }
 
     ensureBrowserBufferShim();
@@ -94,16 +311,15 @@ export async function getParameterFields(schema: unknown): Promise<ParameterFiel
         mutateInputSchema: false
     })) as ObjectSchema;
 
-    const properties = collectProperties(resolvedSchema);
-    const required = collectRequiredProperties(resolvedSchema);
+    return { schema: resolvedSchema, ...toFieldSet(collectSchema(resolvedSchema, '')) };
+}
 
-    return Object.entries(properties).map(([key, propertySchema]) => ({
-        key,
-        label: getFieldLabel(key, propertySchema),
-        schema: propertySchema,
-        required: required.has(key),
-        readonly: 'const' in propertySchema
-    }));
+/**
+ * Derive the fields of a parameters schema, taking the first variant of every
+ * `anyOf`/`oneOf`.
+ */
+export async function getParameterFields(schema: unknown): Promise<ParameterField[]> {
+    return getSelectedFields(await getParameterForm(schema), {});
 }
 
 function ensureBrowserBufferShim(): void {
@@ -123,50 +339,396 @@ function ensureBrowserBufferShim(): void {
     };
 }
 
-function collectProperties(schema: ObjectSchema): Record<string, SchemaProperty> {
-    rejectUnsupportedCombinators(schema);
-
-    const properties: Record<string, SchemaProperty> = {};
+function collectSchema(schema: ObjectSchema, path: string): CollectedSchema {
+    const collected: CollectedSchema = {
+        properties: {},
+        required: new Set(),
+        variantGroups: [],
+        conditions: [],
+        groups: {}
+    };
 
-    for (const item of schema.allOf ?? []) {
+    schema.allOf?.forEach((item, index) => {
         if (item && typeof item === 'object') {
-            Object.assign(properties, collectProperties(item as ObjectSchema));
+            const partSchema = item as ObjectSchema;
+            const part = collectSchema(partSchema, `${path}allOf/${index}/`);
+            Object.assign(collected.properties, part.properties);
+            part.required.forEach((key) => collected.required.add(key));
+            collected.variantGroups.push(...part.variantGroups);
+            collected.conditions.push(...part.conditions);
+
+            // Fields keep the innermost titled part defining them
+            const group: ParameterGroup | undefined = partSchema.title
+                ? {
+                      key: `${path}allOf/${index}`,
+                      title: partSchema.title,
+                      description: partSchema.description
+                  }
+                : undefined;
+            for (const key of Object.keys(part.properties)) {
+                const partGroup = part.groups[key] ?? group;
+                if (partGroup) {
+                    collected.groups[key] = partGroup;
+                } else {
+                    delete collected.groups[key];
+                }
+            }
         }
+    });
+
+    Object.assign(collected.properties, schema.properties ?? {});
+    for (const key of Object.keys(schema.properties ?? {})) {
+        delete collected.groups[key];
+    }
+
+    for (const key of schema.required ?? []) {
+        collected.required.add(key);
+    }
+
+    for (const keyword of VARIANT_KEYWORDS) {
+        const branches = schema[keyword];
+        if (!branches) {
+            continue;
+        }
+
+        collected.variantGroups.push({
+            key: `${path}${keyword}`,
+            keyword,
+            // The root title names the pipeline rather than the choice
+            label: (path && schema.title) || 'Parameter set',
+            variants: branches.map((item, index) => {
+                const branch = item && typeof item === 'object' ? (item as ObjectSchema) : {};
+                return {
+                    title: getVariantTitle(branch, index),
+                    ...toFieldSet(collectSchema(branch, `${path}${keyword}/${index}/`))
+                };
+            })
+        });
+    }
+
+    collected.conditions.push(...collectConditions(schema, path));
+
+    return collected;
+}
+
+function collectConditions(schema: ObjectSchema, path: string): ParameterCondition[] {
+    const conditions: ParameterCondition[] = [];
+    const toBranch = (branch: unknown, branchPath: string) =>
+        branch && typeof branch === 'object'
+            ? toFieldSet(collectSchema(branch as ObjectSchema, branchPath))
+            : undefined;
+
+    if (schema.if && typeof schema.if === 'object') {
+        conditions.push({
+            key: `${path}if`,
+            test: { schema: schema.if as AnySchema },
+            then: toBranch(schema.then, `${path}then/`),
+            else: toBranch(schema.else, `${path}else/`)
+        });
     }
 
-    Object.assign(properties, schema.properties ?? {});
+    for (const [key, required] of Object.entries(schema.dependentRequired ?? {})) {
+        conditions.push({
+            key: `${path}dependentRequired/${key}`,
+            test: { present: key },
+            then: { fields: [], required, variantGroups: [], conditions: [] }
+        });
+    }
+
+    for (const [key, branch] of Object.entries(schema.dependentSchemas ?? {})) {
+        conditions.push({
+            key: `${path}dependentSchemas/${key}`,
+            test: { present: key },
+            then: toBranch(branch, `${path}dependentSchemas/${key}/`)
+        });
+    }
+
+    return conditions;
+}
+
+/**
+ * Whether the values match a condition's test.
+ *
+ * @param condition - the condition
+ * @param data - the values, typed as for validation
+ */
+export function testCondition(
+    condition: ParameterCondition,
+    data: Record<string, unknown>
+): boolean {
+    return 'present' in condition.test
+        ? data[condition.test.present] !== undefined
+        : compile(condition.test.schema)(data);
+}
 
-    return properties;
+function toFieldSet({
+    properties,
+    required,
+    variantGroups,
+    conditions,
+    groups
+}: CollectedSchema): ParameterFieldSet {
+    return {
+        fields: Object.entries(properties).map(([key, propertySchema]) => {
+            const field = toField(key, propertySchema, required.has(key));
+            return groups[key] ? { ...field, group: groups[key] } : field;
+        }),
+        required: [...required],
+        variantGroups,
+        conditions
+    };
 }
 
-function collectRequiredProperties(schema: ObjectSchema): Set<string> {
-    rejectUnsupportedCombinators(schema);
+/** A variant's title, or else the constants that tell it apart */
+function getVariantTitle(branch: ObjectSchema, index: number): string {
+    const constants = Object.values(branch.properties ?? {})
+        .filter((property) => 'const' in property)
+        .map((property) => String(property.const));
+
+    return branch.title ?? (constants.join(', ') || `Option ${index + 1}`);
+}
+
+function getVariantIndex(group: ParameterVariantGroup, selection: VariantSelection): number {
+    const index = selection[group.key] ?? 0;
+    return index >= 0 && index < group.variants.length ? index : 0;
+}
+
+/**
+ * List the variant groups the form shows for a selection: those of the schema
+ * and those nested in the chosen variants.
+ */
+export function getActiveVariantGroups(
+    form: ParameterFieldSet,
+    selection: VariantSelection
+): ParameterVariantGroup[] {
+    return form.variantGroups.flatMap((group) => [
+        group,
+        ...getActiveVariantGroups(group.variants[getVariantIndex(group, selection)], selection)
+    ]);
+}
 
+/**
+ * Derive the fields of the chosen variants. A variant's field replaces a field
+ * of the same key, as with `allOf`, and so does the field of a condition.
+ *
+ * @param form - the form, or a variant
+ * @param selection - the chosen variants
+ * @param data - the values, typed as for validation; with them only the
+ *   conditions that hold apply, without them every conditional field is listed
+ *   but none is required by a condition
+ * @returns the fields in schema order
+ */
+export function getSelectedFields(
+    form: ParameterFieldSet,
+    selection: VariantSelection,
+    data?: Record<string, unknown>
+): ParameterField[] {
+    const fields = new Map<string, ParameterField>();
     const required = new Set<string>();
 
-    for (const item of schema.allOf ?? []) {
-        if (item && typeof item === 'object') {
-            for (const key of collectRequiredProperties(item as ObjectSchema)) {
-                required.add(key);
+    const collect = (set: ParameterFieldSet, isConditional = false) => {
+        for (const field of set.fields) {
+            // Without values, a conditional field does not replace a field that always applies
+            if (!isConditional) {
+                fields.set(field.key, field);
+            } else if (!fields.has(field.key)) {
+                fields.set(field.key, field.required ? { ...field, required: false } : field);
             }
         }
-    }
+        if (!isConditional) {
+            set.required.forEach((key) => required.add(key));
+        }
+        for (const group of set.variantGroups) {
+            collect(group.variants[getVariantIndex(group, selection)], isConditional);
+        }
+        for (const condition of set.conditions) {
+            if (!data) {
+                [condition.then, condition.else].forEach(
+                    (branch) => branch && collect(branch, true)
+                );
+                continue;
+            }
+            const branch = testCondition(condition, data) ? condition.then : condition.else;
+            if (branch) {
+                collect(branch, isConditional);
+            }
+        }
+    };
+    collect(form);
 
-    for (const key of schema.required ?? []) {
-        required.add(key);
+    return [...fields.values()].map((field) =>
+        required.has(field.key) && !field.required ? { ...field, required: true } : field
+    );
+}
+
+/**
+ * Narrow the schema to the chosen variants, so validation reports the errors
+ * of the variant on screen rather than of every branch.
+ *
+ * The narrowed schema has no `$id` or `$schema`: ajv already holds the full
+ * schema under that id, and refuses a second schema with the same one.
+ *
+ * @returns the schema with each `anyOf`/`oneOf` replaced by its chosen branch
+ */
+export function getSelectedSchema(form: ParameterForm, selection: VariantSelection): AnySchema {
+    const schema: Record<string, unknown> = selectBranches(
+        form.schema as ObjectSchema,
+        '',
+        selection
+    );
+    delete schema.$id;
+    delete schema.$schema;
+    return schema;
+}
+
+// Validators of the narrowed schemas, per form and selection
+const selectedValidators = new WeakMap<ParameterForm, Map<string, ValidateFunction>>();
+
+/**
+ * Compile the validator of the chosen variants, once per form and selection,
+ * so repeated validation does not fill ajv's cache with copies of the schema.
+ *
+ * @throws if the narrowed schema cannot be compiled
+ */
+export function compileSelected(
+    form: ParameterForm,
+    selection: VariantSelection
+): ValidateFunction {
+    let validators = selectedValidators.get(form);
+    if (!validators) {
+        validators = new Map();
+        selectedValidators.set(form, validators);
     }
 
-    return required;
+    const key = JSON.stringify(Object.entries(selection).sort());
+    let validator = validators.get(key);
+    if (!validator) {
+        validator = compile(getSelectedSchema(form, selection));
+        validators.set(key, validator);
+    }
+    return validator;
 }
 
-function rejectUnsupportedCombinators(schema: ObjectSchema): void {
-    if (schema.anyOf) {
-        throw new UnsupportedSchemaError('anyOf');
+function selectBranches(
+    schema: ObjectSchema,
+    path: string,
+    selection: VariantSelection
+): ObjectSchema {
+    const { allOf, anyOf, oneOf, ...rest } = schema;
+    const parts: unknown[] = (allOf ?? []).map((item, index) =>
+        item && typeof item === 'object'
+            ? selectBranches(item as ObjectSchema, `${path}allOf/${index}/`, selection)
+            : item
+    );
+
+    for (const [keyword, branches] of [
+        ['anyOf', anyOf],
+        ['oneOf', oneOf]
+    ] as const) {
+        if (!branches || branches.length === 0) {
+            continue;
+        }
+
+        const chosen = selection[`${path}${keyword}`] ?? 0;
+        const index = chosen >= 0 && chosen < branches.length ? chosen : 0;
+        const branch = branches[index];
+        parts.push(
+            branch && typeof branch === 'object'
+                ? selectBranches(branch as ObjectSchema, `${path}${keyword}/${index}/`, selection)
+                : branch
+        );
     }
 
-    if (schema.oneOf) {
-        throw new UnsupportedSchemaError('oneOf');
+    return parts.length > 0 ? { ...rest, allOf: parts } : rest;
+}
+
+/**
+ * Choose the variants that best match existing options, e.g. a parameters
+ * file: the one setting most of its own fields, whose constants all match.
+ * Ties go to the earlier variant.
+ */
+export function matchVariantSelection(
+    form: ParameterFieldSet,
+    options: Record<string, unknown>
+): VariantSelection {
+    const selection: VariantSelection = {};
+
+    const match = (set: ParameterFieldSet) => {
+        for (const group of set.variantGroups) {
+            let best = 0;
+            let bestScore = -1;
+
+            group.variants.forEach((variant, index) => {
+                const fields = getSelectedFields(variant, selection);
+                const conflicts = fields.some(
+                    (field) =>
+                        'const' in field.schema &&
+                        field.key in options &&
+                        options[field.key] !== field.schema.const
+                );
+                const score = fields.filter((field) => field.key in options).length;
+                if (!conflicts && score > bestScore) {
+                    best = index;
+                    bestScore = score;
+                }
+            });
+
+            selection[group.key] = best;
+            match(group.variants[best]);
+        }
+    };
+    match(form);
+
+    return selection;
+}
+
+function toField(key: string, propertySchema: SchemaProperty, required: boolean): ParameterField {
+    return {
+        key,
+        label: getFieldLabel(key, propertySchema),
+        schema: propertySchema,
+        required,
+        readonly: 'const' in propertySchema
+    };
+}
+
+/**
+ * Split fields into the sections of their groups, in the order the groups
+ * first appear. Fields of no group share a section without one.
+ */
+export function groupFields(
+    fields: ParameterField[]
+): Array<{ group?: ParameterGroup; fields: ParameterField[] }> {
+    const sections = new Map<string, { group?: ParameterGroup; fields: ParameterField[] }>();
+
+    for (const field of fields) {
+        const key = field.group?.key ?? '';
+        const section = sections.get(key) ?? { group: field.group, fields: [] };
+        section.fields.push(field);
+        sections.set(key, section);
     }
+
+    return [...sections.values()];
+}
+
+/**
+ * Whether a field is an object entered field by field. Objects with a `format`
+ * (e.g. `location`) have a widget of their own and are kept whole.
+ */
+export function hasNestedFields(schema: SchemaProperty): boolean {
+    return schema.type === 'object' && !!schema.properties && !schema.format;
+}
+
+/**
+ * Derive the fields of a nested object.
+ *
+ * @param schema - the object's schema, already dereferenced
+ */
+export function getNestedFields(schema: SchemaProperty): ParameterField[] {
+    const required = schema.required ?? [];
+    return Object.entries(schema.properties ?? {}).map(([key, propertySchema]) =>
+        toField(key, propertySchema, required.includes(key))
+    );
 }
 
 function getFieldLabel(key: string, propertySchema: SchemaProperty): string {
@@ -177,20 +739,40 @@ export function getDefaultOptions(fields: ParameterField[]): Record<string, unkn
     const defaults: Record<string, unknown> = {};
 
     for (const field of fields) {
-        if ('default' in field.schema) {
-            defaults[field.key] = field.schema.default;
-        } else if ('const' in field.schema) {
-            defaults[field.key] = field.schema.const;
-        } else if (field.schema.type === 'boolean') {
-            defaults[field.key] = false;
-        } else {
-            defaults[field.key] = '';
-        }
+        defaults[field.key] = getDefaultValue(field.schema);
     }
 
     return defaults;
 }
 
+/**
+ * The initial value of a field, or of a new item of a list field: an array
+ * starts empty and a nested object with the defaults of its fields.
+ */
+export function getDefaultValue(schema: SchemaProperty): unknown {
+    if ('default' in schema) {
+        return schema.default;
+    } else if ('const' in schema) {
+        return schema.const;
+    } else if (schema.type === 'boolean') {
+        return false;
+    } else if (schema.type === 'array') {
+        return [];
+    } else if (hasNestedFields(schema)) {
+        return getDefaultOptions(getNestedFields(schema));
+    }
+    return '';
+}
+
+/**
+ * Turn form values into the data the schema validates: number strings become
+ * numbers, and empty values are dropped, also within lists and nested objects.
+ * Fields without a value are left out, so an empty optional field passes.
+ *
+ * @param fields - the fields of the form, or of a nested object
+ * @param options - the form values
+ * @returns the typed data
+ */
 export function coerceOptionsForValidation(
     fields: ParameterField[],
     options: Record<string, unknown>
@@ -211,18 +793,35 @@ export function coerceOptionsForValidation(
             continue;
         }
 
-        if (value === '' || value === null || value === undefined) {
-            continue;
-        }
-
-        if (field.schema.type === 'integer' || field.schema.type === 'number') {
-            typedData[key] = typeof value === 'number' ? value : Number(value);
-        } else if (field.schema.type === 'boolean') {
-            typedData[key] = Boolean(value);
-        } else {
-            typedData[key] = value;
+        const typedValue = coerceValue(field.schema, value);
+        if (typedValue !== undefined) {
+            typedData[key] = typedValue;
         }
     }
 
     return typedData;
 }
+
+function coerceValue(schema: SchemaProperty, value: unknown): unknown {
+    if (value === '' || value === null || value === undefined) {
+        return undefined;
+    }
+
+    if (schema.type === 'integer' || schema.type === 'number') {
+        return typeof value === 'number' ? value : Number(value);
+    } else if (schema.type === 'boolean') {
+        return Boolean(value);
+    } else if (schema.type === 'array' && Array.isArray(value)) {
+        const items = value
+            .map((item) => coerceValue(schema.items ?? {}, item))
+            .filter((item) => item !== undefined);
+        return items.length > 0 ? items : undefined;
+    } else if (hasNestedFields(schema) && typeof value === 'object' && !Array.isArray(value)) {
+        const nested = coerceOptionsForValidation(
+            getNestedFields(schema),
+            value as Record<string, unknown>
+        );
+        return Object.keys(nested).length > 0 ? nested : undefined;
+    }
+    return value;
+}
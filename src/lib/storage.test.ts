@@ -0,0 +1,251 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+
+vi.mock('$lib/apiClient', () => ({
+    capi: { get: vi.fn() }
+}));
+
+import { capi } from '$lib/apiClient';
+import {
+    countUploadParts,
+    findKeyConflict,
+    getProcessingStatus,
+    listMultipartUploads,
+    listObjects
+} from './storage';
+
+const baseParams = {
+    baseUrl: 'https://api.example.test',
+    bucket: 'example-bucket',
+    prefix: 'unprocessed/'
+};
+
+function listXml(keys: string[], nextToken?: string) {
+    const contents = keys
+        .map(
+            (key) =>
+                `<Contents><Key>${key}</Key><LastModified>2025-08-15T12:00:00.000Z</LastModified>` +
+                '<Size>2048</Size></Contents>'
+        )
+        .join('');
+    return (
+        '<?xml version="1.0" encoding="UTF-8"?><ListBucketResult><Name>example-bucket</Name>' +
+        `<IsTruncated>${Boolean(nextToken)}</IsTruncated>${contents}` +
+        (nextToken ? `<NextContinuationToken>${nextToken}</NextContinuationToken>` : '') +
+        '</ListBucketResult>'
+    );
+}
+
+describe('listObjects', () => {
+    beforeEach(() => {
+        vi.clearAllMocks();
+    });
+
+    it('lists a page of objects with the token of the next page', async () => {
+        vi.mocked(capi.get).mockResolvedValue({
+            data: listXml(['unprocessed/sample-0123.tar', 'unprocessed/sample-2.tar'], 'token-2')
+        });
+
+        const page = await listObjects(baseParams);
+
+        expect(capi.get).toHaveBeenCalledWith('https://api.example.test/objstorage/contents', {
+            params: { bucket: 'example-bucket', prefix: 'unprocessed/', maxKeys: 100 },
+            responseType: 'text',
+            signal: undefined
+        });
+        expect(page).toEqual({
+            objects: [
+                {
+                    key: 'unprocessed/sample-0123.tar',
+                    size: 2048,
+                    lastModified: '2025-08-15T12:00:00.000Z',
+                    status: 'unprocessed'
+                },
+                {
+                    key: 'unprocessed/sample-2.tar',
+                    size: 2048,
+                    lastModified: '2025-08-15T12:00:00.000Z',
+                    status: 'unprocessed'
+                }
+            ],
+            continuationToken: 'token-2'
+        });
+    });
+
+    it('continues from a token and ends on the last page', async () => {
+        vi.mocked(capi.get).mockResolvedValue({ data: listXml(['processed/sample-3.tar']) });
+
+        const page = await listObjects({
+            ...baseParams,
+            prefix: 'processed/',
+            continuationToken: 'token-2',
+            pageSize: 10
+        });
+
+        expect(vi.mocked(capi.get).mock.calls[0][1]?.params).toEqual({
+            bucket: 'example-bucket',
+            prefix: 'processed/',
+            maxKeys: 10,
+            continuationToken: 'token-2'
+        });
+        expect(page.objects).toMatchObject([
+            { key: 'processed/sample-3.tar', status: 'processed' }
+        ]);
+        expect(page.continuationToken).toBeUndefined();
+    });
+
+    it('returns no objects for an empty prefix', async () => {
+        vi.mocked(capi.get).mockResolvedValue({ data: listXml([]) });
+
+        expect(await listObjects(baseParams)).toEqual({
+            objects: [],
+            continuationToken: undefined
+        });
+    });
+
+    it('rejects a response that is not a listing', async () => {
+        vi.mocked(capi.get).mockResolvedValue({ data: '<Error><Code>AccessDenied</Code></Error>' });
+
+        await expect(listObjects(baseParams)).rejects.toThrow(
+            'Unexpected XML from object listing: <Error>'
+        );
+    });
+});
+
+function uploadsXml(uploads: [key: string, uploadId: string][]) {
+    const entries = uploads
+        .map(
+            ([key, uploadId]) =>
+                `<Upload><Key>${key}</Key><UploadId>${uploadId}</UploadId>` +
+                '<Initiated>2025-08-14T09:30:00.000Z</Initiated></Upload>'
+        )
+        .join('');
+    return `<ListMultipartUploadsResult><Bucket>example-bucket</Bucket>${entries}</ListMultipartUploadsResult>`;
+}
+
+/** Answer object listings with `objects` and upload listings with `uploads` */
+function mockListings(objects: string[], uploads: [key: string, uploadId: string][]) {
+    vi.mocked(capi.get).mockImplementation(async (_url, config) => ({
+        data: (config?.params as { uploads?: boolean }).uploads
+            ? uploadsXml(uploads)
+            : listXml(objects)
+    }));
+}
+
+describe('listMultipartUploads', () => {
+    beforeEach(() => {
+        vi.clearAllMocks();
+    });
+
+    it('lists the uploads in progress under a prefix', async () => {
+        mockListings([], [['unprocessed/sample-1.tar', 'upload-1']]);
+
+        expect(await listMultipartUploads(baseParams)).toEqual([
+            {
+                key: 'unprocessed/sample-1.tar',
+                uploadId: 'upload-1',
+                initiated: '2025-08-14T09:30:00.000Z'
+            }
+        ]);
+        expect(vi.mocked(capi.get).mock.calls[0][1]?.params).toEqual({
+            bucket: 'example-bucket',
+            prefix: 'unprocessed/',
+            uploads: true,
+            maxUploads: 100
+        });
+    });
+
+    it('rejects a response that is not an upload listing', async () => {
+        vi.mocked(capi.get).mockResolvedValue({ data: listXml([]) });
+
+        await expect(listMultipartUploads(baseParams)).rejects.toThrow(
+            'Unexpected XML from multipart upload listing'
+        );
+    });
+});
+
+describe('findKeyConflict', () => {
+    const params = {
+        baseUrl: 'https://api.example.test',
+        bucket: 'example-bucket',
+        key: 'unprocessed/sample-1.tar'
+    };
+
+    beforeEach(() => {
+        vi.clearAllMocks();
+    });
+
+    it('finds a stored object and uploads in progress with the same key', async () => {
+        mockListings(
+            ['unprocessed/sample-1.tar'],
+            [
+                ['unprocessed/sample-1.tar', 'upload-1'],
+                ['unprocessed/sample-1.tar.bak', 'upload-2']
+            ]
+        );
+
+        const conflict = await findKeyConflict(params);
+
+        expect(conflict?.object).toMatchObject({ key: 'unprocessed/sample-1.tar' });
+        expect(conflict?.uploads.map((upload) => upload.uploadId)).toEqual(['upload-1']);
+    });
+
+    it('ignores other keys that share the prefix', async () => {
+        mockListings(['unprocessed/sample-1.tar.bak'], [['unprocessed/sample-10.tar', 'upload-3']]);
+
+        expect(await findKeyConflict(params)).toBeUndefined();
+    });
+});
+
+describe('countUploadParts', () => {
+    const params = {
+        baseUrl: 'https://api.example.test',
+        bucket: 'example-bucket',
+        key: 'unprocessed/sample-1.tar',
+        uploadId: 'upload-1'
+    };
+
+    function partsXml(partNumbers: number[], nextMarker?: number) {
+        const parts = partNumbers
+            .map((n) => `<Part><PartNumber>${n}</PartNumber><Size>5242880</Size></Part>`)
+            .join('');
+        return (
+            `<ListPartsResult><IsTruncated>${nextMarker !== undefined}</IsTruncated>` +
+            (nextMarker ? `<NextPartNumberMarker>${nextMarker}</NextPartNumberMarker>` : '') +
+            `${parts}</ListPartsResult>`
+        );
+    }
+
+    beforeEach(() => {
+        vi.clearAllMocks();
+    });
+
+    it('counts the parts across pages', async () => {
+        vi.mocked(capi.get)
+            .mockResolvedValueOnce({ data: partsXml([1, 2], 2) })
+            .mockResolvedValueOnce({ data: partsXml([3]) });
+
+        expect(await countUploadParts(params)).toBe(3);
+        expect(vi.mocked(capi.get).mock.calls.map(([, config]) => config?.params)).toEqual([
+            { bucket: 'example-bucket', key: 'unprocessed/sample-1.tar', uploadId: 'upload-1' },
+            {
+                bucket: 'example-bucket',
+                key: 'unprocessed/sample-1.tar',
+                uploadId: 'upload-1',
+                partNumberMarker: '2'
+            }
+        ]);
+    });
+
+    it('counts no parts for an upload that has none yet', async () => {
+        vi.mocked(capi.get).mockResolvedValue({ data: partsXml([]) });
+
+        expect(await countUploadParts(params)).toBe(0);
+    });
+});
+
+describe('getProcessingStatus', () => {
+    it('reads the status from the prefix', () => {
+        expect(getProcessingStatus('unprocessed/sample-1.tar')).toBe('unprocessed');
+        expect(getProcessingStatus('processed/sample-1.tar')).toBe('processed');
+    });
+});
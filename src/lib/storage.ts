@@ -0,0 +1,231 @@
+import { XMLParser } from 'fast-xml-parser';
+import { capi } from '$lib/apiClient';
+
+const contentsUrl = (base: string) => `${base}/objstorage/contents`;
+
+/**
+ * Browsing uploaded objects.
+ */
+
+const DEFAULT_PAGE_SIZE = 100;
+
+export type ProcessingStatus = 'unprocessed' | 'processed';
+
+/**
+ * The bucket prefixes a user's samples live under. Uploads land in
+ * `unprocessed/` and are moved to `processed/` once the pipeline picks them up.
+ */
+export const STORAGE_PREFIXES = ['unprocessed/', 'processed/'];
+
+export interface StorageObject {
+    key: string;
+    size: number;
+    /** ISO 8601 timestamp */
+    lastModified: string;
+    status: ProcessingStatus;
+}
+
+export interface StoragePage {
+    objects: StorageObject[];
+    /** Pass to `listObjects` for the next page; undefined on the last page */
+    continuationToken?: string;
+}
+
+/** A multipart upload that was started and neither completed nor aborted */
+export interface MultipartUploadInfo {
+    key: string;
+    uploadId: string;
+    /** ISO 8601 timestamp */
+    initiated: string;
+}
+
+/** What already occupies an object key */
+export interface KeyConflict {
+    key: string;
+    object?: StorageObject;
+    uploads: MultipartUploadInfo[];
+}
+
+export interface ListObjectsParams {
+    baseUrl: string;
+    bucket: string;
+    prefix: string;
+    /** From the previous page, to continue the listing */
+    continuationToken?: string;
+    pageSize?: number;
+    signal?: AbortSignal;
+}
+
+const parser = new XMLParser({
+    ignoreDeclaration: true,
+    // A page with a single object has a single <Contents> element
+    isArray: (name) => name === 'Contents' || name === 'Upload' || name === 'Part',
+    // Keys such as `unprocessed/sample-0123.tar` must not become numbers
+    parseTagValue: false
+});
+
+/**
+ * List one page of the objects under a prefix. The backend relays S3's
+ * `ListObjectsV2` response.
+ *
+ * @param params - the bucket, prefix and page to list
+ * @returns the objects of the page and the token of the next one
+ * @throws {Error} If the response is not a `ListBucketResult`.
+ */
+export async function listObjects({
+    baseUrl,
+    bucket,
+    prefix,
+    continuationToken,
+    pageSize = DEFAULT_PAGE_SIZE,
+    signal
+}: ListObjectsParams): Promise<StoragePage> {
+    const params = {
+        bucket,
+        prefix,
+        maxKeys: pageSize,
+        ...(continuationToken && { continuationToken })
+    };
+    const { data } = await capi.get(contentsUrl(baseUrl), {
+        params,
+        responseType: 'text',
+        signal
+    });
+
+    const result = parser.parse(data)?.ListBucketResult;
+    if (!result) {
+        throw new Error(`Unexpected XML from object listing: ${data?.slice?.(0, 200)}...`);
+    }
+
+    const contents: { Key: string; Size: string; LastModified: string }[] = result.Contents ?? [];
+    return {
+        objects: contents.map((object) => ({
+            key: object.Key,
+            size: Number(object.Size),
+            lastModified: object.LastModified,
+            status: getProcessingStatus(object.Key)
+        })),
+        continuationToken:
+            result.IsTruncated === 'true' ? result.NextContinuationToken || undefined : undefined
+    };
+}
+
+/**
+ * List the multipart uploads in progress under a prefix. The backend relays
+ * S3's `ListMultipartUploads` response when asked for `uploads`.
+ *
+ * @param params - the bucket and prefix to list; `pageSize` caps the uploads returned
+ * @returns the uploads, oldest first per key
+ * @throws {Error} If the response is not a `ListMultipartUploadsResult`.
+ */
+export async function listMultipartUploads({
+    baseUrl,
+    bucket,
+    prefix,
+    pageSize = DEFAULT_PAGE_SIZE,
+    signal
+}: Omit<ListObjectsParams, 'continuationToken'>): Promise<MultipartUploadInfo[]> {
+    const params = { bucket, prefix, uploads: true, maxUploads: pageSize };
+    const { data } = await capi.get(contentsUrl(baseUrl), {
+        params,
+        responseType: 'text',
+        signal
+    });
+
+    const result = parser.parse(data)?.ListMultipartUploadsResult;
+    if (!result) {
+        throw new Error(
+            `Unexpected XML from multipart upload listing: ${data?.slice?.(0, 200)}...`
+        );
+    }
+
+    const uploads: { Key: string; UploadId: string; Initiated: string }[] = result.Upload ?? [];
+    return uploads.map((upload) => ({
+        key: upload.Key,
+        uploadId: upload.UploadId,
+        initiated: upload.Initiated
+    }));
+}
+
+/**
+ * Count the parts stored so far for a multipart upload. The backend relays
+ * S3's `ListParts` response when asked for an `uploadId`; pages of up to 1,000
+ * parts are followed to the end.
+ *
+ * @param params - the bucket, key and upload
+ * @returns the number of parts
+ * @throws {Error} If a response is not a `ListPartsResult`.
+ */
+export async function countUploadParts({
+    baseUrl,
+    bucket,
+    key,
+    uploadId,
+    signal
+}: Pick<ListObjectsParams, 'baseUrl' | 'bucket' | 'signal'> & {
+    key: string;
+    uploadId: string;
+}): Promise<number> {
+    let count = 0;
+    let partNumberMarker: string | undefined;
+    do {
+        const params = {
+            bucket,
+            key,
+            uploadId,
+            ...(partNumberMarker && { partNumberMarker })
+        };
+        const { data } = await capi.get(contentsUrl(baseUrl), {
+            params,
+            responseType: 'text',
+            signal
+        });
+
+        const result = parser.parse(data)?.ListPartsResult;
+        if (!result) {
+            throw new Error(`Unexpected XML from part listing: ${data?.slice?.(0, 200)}...`);
+        }
+        count += result.Part?.length ?? 0;
+        partNumberMarker =
+            result.IsTruncated === 'true' ? result.NextPartNumberMarker || undefined : undefined;
+    } while (partNumberMarker);
+    return count;
+}
+
+/**
+ * Check whether an object key is taken, by a stored object or by a multipart
+ * upload still in progress, before uploading to it.
+ *
+ * @param params - the bucket and key
+ * @returns what occupies the key, or undefined if it is free
+ */
+export async function findKeyConflict({
+    baseUrl,
+    bucket,
+    key,
+    signal
+}: Omit<ListObjectsParams, 'prefix' | 'continuationToken' | 'pageSize'> & {
+    key: string;
+}): Promise<KeyConflict | undefined> {
+    // Other keys may share the prefix, but the key itself sorts first
+    const [page, uploads] = await Promise.all([
+        listObjects({ baseUrl, bucket, prefix: key, pageSize: 1, signal }),
+        listMultipartUploads({ baseUrl, bucket, prefix: key, signal })
+    ]);
+
+    const object = page.objects.find((o) => o.key === key);
+    const pending = uploads.filter((upload) => upload.key === key);
+    if (!object && pending.length === 0) {
+        return undefined;
+    }
+    return { key, ...(object && { object }), uploads: pending };
+}
+
+/**
+ * Whether the pipeline has picked up an object yet, judging by its prefix
+ *
+ * @param key - the object key
+ */
+export function getProcessingStatus(key: string): ProcessingStatus {
+    return key.startsWith('unprocessed/') ? 'unprocessed' : 'processed';
+}
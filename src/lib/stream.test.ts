@@ -0,0 +1,188 @@
+import { describe, it, expect, vi } from 'vitest';
+import * as tar from 'tar-stream';
+import { crc64Nvme } from './checksum';
+import { chunkStream, getTarEntries, tarPack, tarSize } from './stream';
+
+async function* source(sizes: number[]): AsyncGenerator<Uint8Array> {
+    let value = 0;
+    for (const size of sizes) {
+        yield Uint8Array.from({ length: size }, () => value++ % 256);
+    }
+}
+
+async function collect(stream: AsyncIterable<Uint8Array>): Promise<Uint8Array[]> {
+    const parts: Uint8Array[] = [];
+    for await (const part of stream) {
+        parts.push(part);
+    }
+    return parts;
+}
+
+describe('chunkStream', () => {
+    it('yields exactly one part when the stream is one part long', async () => {
+        const parts = await collect(chunkStream(source([3, 5]), 8));
+        expect(parts.map((p) => p.length)).toEqual([8]);
+    });
+
+    it('yields a final partial part', async () => {
+        const parts = await collect(chunkStream(source([4, 4, 4, 3]), 6));
+        expect(parts.map((p) => p.length)).toEqual([6, 6, 3]);
+    });
+
+    it('preserves the byte order across part boundaries', async () => {
+        const parts = await collect(chunkStream(source([5, 7, 2]), 4));
+        const bytes = parts.flatMap((p) => Array.from(p));
+        expect(bytes).toEqual(Array.from({ length: 14 }, (_, i) => i));
+    });
+
+    it('gives every part a buffer of its own', async () => {
+        const parts = await collect(chunkStream(source([5, 7, 2, 9]), 4));
+
+        expect(parts.map((p) => p.length)).toEqual([4, 4, 4, 4, 4, 3]);
+        for (const part of parts) {
+            expect(part.byteOffset).toBe(0);
+            expect(part.buffer.byteLength).toBe(part.length);
+        }
+    });
+});
+
+describe('chunkStream benchmark', () => {
+    const MIB = 1024 * 1024;
+    const TAR_CHUNK = 64 * 1024;
+
+    // The same 64 KB tar-sized chunk over and over, so the source costs nothing
+    async function* tarChunks(totalBytes: number): AsyncGenerator<Uint8Array> {
+        const chunk = new Uint8Array(TAR_CHUNK).fill(1);
+        for (let sent = 0; sent < totalBytes; sent += TAR_CHUNK) {
+            yield chunk;
+        }
+    }
+
+    async function drain(partSize: number, totalBytes: number) {
+        let parts = 0;
+        let maxBufferBytes = 0;
+        for await (const part of chunkStream(tarChunks(totalBytes), partSize)) {
+            parts += 1;
+            maxBufferBytes = Math.max(maxBufferBytes, part.buffer.byteLength);
+        }
+        return { parts, maxBufferBytes };
+    }
+
+    it('copies every byte exactly once', async () => {
+        const set = vi.spyOn(Uint8Array.prototype, 'set');
+        try {
+            const { parts } = await drain(10 * MIB, 32 * MIB);
+
+            const copied = set.mock.calls.reduce(
+                (sum, [source]) => sum + (source as ArrayLike<number>).length,
+                0
+            );
+            expect(parts).toBe(4);
+            expect(copied).toBe(32 * MIB);
+        } finally {
+            set.mockRestore();
+        }
+    });
+
+    it('fills one part-sized buffer per part, whatever the part size', async () => {
+        const small = await drain(MIB, 32 * MIB);
+        const large = await drain(16 * MIB, 32 * MIB);
+
+        expect(small.parts).toBe(32);
+        expect(large.parts).toBe(2);
+        expect(small.maxBufferBytes).toBe(MIB);
+        expect(large.maxBufferBytes).toBe(16 * MIB);
+    });
+});
+
+describe('tarPack', () => {
+    const meta = {
+        sampleId: 'S1',
+        sampleType: 'isolate',
+        sampleMatrix: 'stool',
+        sampleCollectionDate: '2026-01-01T00:00:00.000+00:00'
+    };
+    const files = [
+        new File(['@r1\nACGT\n+\nIIII\n'], 'S1_R1.fastq'),
+        new File([new Uint8Array(1_500).fill(7)], 'S1_R2.fastq.gz')
+    ];
+
+    it('produces exactly tarSize bytes', async () => {
+        const parts = await collect(tarPack(meta, files));
+        expect(parts.reduce((n, p) => n + p.length, 0)).toBe(tarSize(meta, files));
+    });
+
+    async function extractEntries(archiveDir?: string): Promise<Record<string, Uint8Array>> {
+        const extract = tar.extract();
+        const entries: Record<string, Uint8Array> = {};
+        extract.on('entry', (header, stream, next) => {
+            collect(stream).then((chunks) => {
+                entries[header.name] = new Uint8Array(Buffer.concat(chunks));
+                next();
+            });
+        });
+        const finished = new Promise((resolve) => extract.on('finish', resolve));
+        tarPack(meta, files, archiveDir).pipe(extract);
+        await finished;
+        return entries;
+    }
+
+    it('writes the entries listed by getTarEntries, in order and with their sizes', async () => {
+        const entries = await extractEntries();
+
+        expect(getTarEntries(meta, files)).toEqual(
+            Object.entries(entries).map(([name, bytes]) => ({ name, size: bytes.length }))
+        );
+    });
+
+    it('writes meta.json last with the checksum of every sequencing file', async () => {
+        const entries = await extractEntries();
+
+        expect(Object.keys(entries)).toEqual([
+            'sequencing/S1_R1.fastq',
+            'sequencing/S1_R2.fastq.gz',
+            'meta.json'
+        ]);
+
+        const written = JSON.parse(new TextDecoder().decode(entries['meta.json']));
+        expect(written).toMatchObject(meta);
+        expect(written.checksums).toEqual({
+            algorithm: 'CRC64NVME',
+            files: {
+                'sequencing/S1_R1.fastq': crc64Nvme(entries['sequencing/S1_R1.fastq']),
+                'sequencing/S1_R2.fastq.gz': crc64Nvme(new Uint8Array(1_500).fill(7))
+            }
+        });
+    });
+
+    it('packs the same bytes again later, so a resumed upload can keep its stored parts', async () => {
+        const concat = (parts: Uint8Array[]) => new Uint8Array(Buffer.concat(parts));
+        vi.useFakeTimers({ toFake: ['Date'] });
+        try {
+            vi.setSystemTime(new Date('2026-03-01T10:00:00Z'));
+            const first = concat(await collect(tarPack(meta, files)));
+            vi.setSystemTime(new Date('2026-03-02T16:30:05Z'));
+            const second = concat(await collect(tarPack(meta, files)));
+
+            expect(second).toEqual(first);
+        } finally {
+            vi.useRealTimers();
+        }
+    });
+
+    it('writes the files under another archive directory', async () => {
+        const entries = await extractEntries('nanopore');
+
+        expect(Object.keys(entries)).toEqual([
+            'nanopore/S1_R1.fastq',
+            'nanopore/S1_R2.fastq.gz',
+            'meta.json'
+        ]);
+        expect(getTarEntries(meta, files, 'nanopore').map((entry) => entry.name)).toEqual(
+            Object.keys(entries)
+        );
+        expect(
+            JSON.parse(new TextDecoder().decode(entries['meta.json'])).checksums.files
+        ).toHaveProperty(['nanopore/S1_R1.fastq']);
+    });
+});
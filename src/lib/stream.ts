@@ -1,47 +1,106 @@
 import * as tar from 'tar-stream';
 import { Readable } from 'readable-stream';
 import { Buffer } from 'buffer';
+import { CHECKSUM_ALGORITHM, createCrc64Nvme } from '$lib/checksum';
 
-interface SampleMeta {
+/**
+ * Sample metadata written to `meta.json`. Its fields are defined by the
+ * sample metadata schema of the destination bucket (see `sampleMeta.ts`), and
+ * it is validated against that schema before packing. Only the sample ID,
+ * which names the archive, is known ahead of time.
+ */
+export interface SampleMeta {
     sampleId: string;
-    sampleType: string;
-    sampleMatrix: string;
-    sampleCollectionDate: string;
+    [field: string]: unknown;
+}
+
+/**
+ * Checksums of the sequencing files, recorded in `meta.json` so downstream
+ * pipelines can confirm sample integrity after unpacking.
+ */
+export interface SampleChecksums {
+    algorithm: typeof CHECKSUM_ALGORITHM;
+    /** Base64 checksum per archive entry name */
+    files: Record<string, string>;
 }
 
+/** The archive directory of the sample files, unless the upload profile sets another */
+export const DEFAULT_ARCHIVE_DIR = 'sequencing';
+
 const TAR_BLOCK_SIZE = 512;
 
+/** Placeholder with the length of a base64 encoded 64-bit checksum */
+const CHECKSUM_PLACEHOLDER = 'A'.repeat(12);
+
 /**
  * Encode sample metadata into a bytes array
  *
  * @param meta - the sample metadata
+ * @param checksums - the checksums of the sequencing files
  * @returns the byte array
  */
-function metaJsonBytes(meta: SampleMeta): Uint8Array<ArrayBuffer> {
-    const metaStr = JSON.stringify(meta);
+function metaJsonBytes(meta: SampleMeta, checksums: SampleChecksums): Uint8Array<ArrayBuffer> {
+    const metaStr = JSON.stringify({ ...meta, checksums });
     return new TextEncoder().encode(metaStr);
 }
 
+function fileEntryName(file: File, archiveDir: string): string {
+    return `${archiveDir}/${file.name}`;
+}
+
+/** An entry of the sample archive, as listed before it is packed */
+export interface TarEntry {
+    /** The path inside the archive */
+    name: string;
+    /** The entry size in bytes, without the header and block padding */
+    size: number;
+}
+
+/**
+ * List the entries of the tar archive, in the order `tarPack` writes them.
+ *
+ * The size of `meta.json` is exact before the files are read, because the
+ * checksums it records always encode to the same length.
+ *
+ * @param meta - the sample metadata
+ * @param files - the sequencing files
+ * @param archiveDir - the archive directory of the files
+ * @returns the archive entries
+ */
+export function getTarEntries(
+    meta: SampleMeta,
+    files: File[],
+    archiveDir = DEFAULT_ARCHIVE_DIR
+): TarEntry[] {
+    const placeholders = Object.fromEntries(
+        files.map((f) => [fileEntryName(f, archiveDir), CHECKSUM_PLACEHOLDER])
+    );
+    const metaNumBytes = metaJsonBytes(meta, {
+        algorithm: CHECKSUM_ALGORITHM,
+        files: placeholders
+    }).length;
+
+    return [
+        ...files.map((f) => ({ name: fileEntryName(f, archiveDir), size: f.size })),
+        { name: 'meta.json', size: metaNumBytes }
+    ];
+}
+
 /**
  * Calculate the final size of the *.tar file.
  *
  * @param meta - the sample metadata
  * @param files - the sequence of *.fasta.gz files
+ * @param archiveDir - the archive directory of the files
  * @returns the size of the final tar archive in bytes
  */
-export function tarSize(meta: SampleMeta, files: File[]): number {
+export function tarSize(meta: SampleMeta, files: File[], archiveDir = DEFAULT_ARCHIVE_DIR): number {
     let numBytes = 0;
 
-    // meta.json
-    const metaNumBytes = metaJsonBytes(meta).length;
-    numBytes += TAR_BLOCK_SIZE;
-    numBytes += Math.ceil(metaNumBytes / TAR_BLOCK_SIZE) * TAR_BLOCK_SIZE;
-
-    // *.fasta.gz files
-    for (const f of files) {
-        const fileNumBytes = f.size;
+    // One header block per entry, and its content padded to whole blocks
+    for (const entry of getTarEntries(meta, files, archiveDir)) {
         numBytes += TAR_BLOCK_SIZE;
-        numBytes += Math.ceil(fileNumBytes / TAR_BLOCK_SIZE) * TAR_BLOCK_SIZE;
+        numBytes += Math.ceil(entry.size / TAR_BLOCK_SIZE) * TAR_BLOCK_SIZE;
     }
 
     // Two final blocks
@@ -49,64 +108,130 @@ export function tarSize(meta: SampleMeta, files: File[]): number {
     return numBytes;
 }
 
-function toReadableStream(stream: ReadableStream<Uint8Array>): Readable {
+function toReadableStream(
+    stream: ReadableStream<Uint8Array>,
+    onChunk?: (chunk: Uint8Array) => void
+): Readable {
     const reader = stream.getReader();
     return new Readable({
         read() {
             reader
                 .read()
                 .then(({ done, value }) => {
-                    if (done) this.push(null);
-                    else this.push(Buffer.from(value));
+                    if (done) {
+                        this.push(null);
+                    } else {
+                        onChunk?.(value);
+                        this.push(Buffer.from(value));
+                    }
                 })
                 .catch((err) => this.destroy(err));
         }
     });
 }
 
+/**
+ * The modification time of `meta.json`: that of the newest file. A resumed
+ * upload packs the archive again and keeps the parts stored earlier, so every
+ * header must come out the same as the first time, never the current time.
+ */
+function metaMtime(files: File[]): Date {
+    return new Date(Math.max(0, ...files.map((file) => file.lastModified)));
+}
+
 /**
  * Construct the tar archive from a meta object and an array of files
  *
+ * The sequencing files are written first and checksummed as they stream
+ * through. `meta.json` is the last entry, so it can record those checksums.
+ * Entries carry the modification times of the files, so packing the same
+ * files twice gives the same bytes.
+ *
  * @param meta - the sample metadata
  * @param files - the array of files
+ * @param archiveDir - the archive directory of the files
  * @returns the tar.Pack used to stream the tar file
  */
-export function tarPack(meta: SampleMeta, files: File[]): tar.Pack {
+export function tarPack(
+    meta: SampleMeta,
+    files: File[],
+    archiveDir = DEFAULT_ARCHIVE_DIR
+): tar.Pack {
     const pack = tar.pack();
+    packEntries(pack, meta, files, archiveDir).catch((err) => pack.destroy(err));
+    return pack;
+}
 
-    const metaBytes = metaJsonBytes(meta);
-    const metaBuffer = Buffer.from(metaBytes);
-    pack.entry({ name: 'meta.json', size: metaBytes.length }, metaBuffer);
+async function packEntries(
+    pack: tar.Pack,
+    meta: SampleMeta,
+    files: File[],
+    archiveDir: string
+): Promise<void> {
+    const checksums: SampleChecksums = { algorithm: CHECKSUM_ALGORITHM, files: {} };
 
     for (const file of files) {
-        const header = {
-            name: `sequencing/${file.name}`,
-            size: file.size,
-            mode: 0o644
-        };
-        const entry = pack.entry(header);
-        toReadableStream(file.stream()).pipe(entry);
+        const name = fileEntryName(file, archiveDir);
+        const checksum = createCrc64Nvme();
+
+        await new Promise<void>((resolve, reject) => {
+            const header = {
+                name,
+                size: file.size,
+                mode: 0o644,
+                mtime: new Date(file.lastModified)
+            };
+            const entry = pack.entry(header, (err) => (err ? reject(err) : resolve()));
+            toReadableStream(file.stream(), checksum.update).pipe(entry);
+        });
+
+        checksums.files[name] = checksum.digest();
     }
 
+    const metaBytes = metaJsonBytes(meta, checksums);
+    const metaBuffer = Buffer.from(metaBytes);
+    pack.entry({ name: 'meta.json', size: metaBytes.length, mtime: metaMtime(files) }, metaBuffer);
+
     pack.finalize();
-    return pack;
 }
 
+/**
+ * Re-chunk a byte stream into parts of exactly `chunkSize` bytes (the last
+ * part may be shorter).
+ *
+ * Each part is assembled in its own preallocated buffer, so every byte is
+ * copied once no matter how small the incoming chunks are, and every part
+ * owns exactly its own `ArrayBuffer` (nothing pins a larger backing buffer,
+ * and a part can be transferred to another thread as is).
+ *
+ * @param nodeStream - the source stream, e.g. a `tar.Pack`
+ * @param chunkSize - the part size in bytes
+ */
 export async function* chunkStream(
     nodeStream: AsyncIterable<Uint8Array, Buffer>,
     chunkSize: number
-): AsyncGenerator<Uint8Array> {
-    let buffer = Buffer.alloc(0);
+): AsyncGenerator<Uint8Array<ArrayBuffer>> {
+    let part: Uint8Array<ArrayBuffer> | undefined;
+    let filled = 0;
 
     for await (const chunk of nodeStream) {
-        buffer = Buffer.concat([buffer, Buffer.from(chunk)]);
-        while (buffer.length >= chunkSize) {
-            yield buffer.subarray(0, chunkSize);
-            buffer = buffer.subarray(chunkSize);
+        let offset = 0;
+        while (offset < chunk.length) {
+            part ??= new Uint8Array(chunkSize);
+            const length = Math.min(chunkSize - filled, chunk.length - offset);
+            part.set(chunk.subarray(offset, offset + length), filled);
+            filled += length;
+            offset += length;
+
+            if (filled === chunkSize) {
+                yield part;
+                part = undefined;
+                filled = 0;
+            }
         }
     }
 
-    if (buffer.length > 0) {
-        yield buffer; // last partial chunk
+    if (part && filled > 0) {
+        yield part.slice(0, filled); // last partial part
     }
 }
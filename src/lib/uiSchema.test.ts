@@ -0,0 +1,101 @@
+import { describe, expect, it } from 'vitest';
+import { getLayoutKeys, getRuleState, getScopeKey, parseUiSchema } from './uiSchema';
+
+describe('UI schema utilities', () => {
+    it('accepts the supported layouts and rejects unknown elements', () => {
+        const uiSchema = {
+            type: 'Categorization',
+            elements: [
+                {
+                    type: 'Category',
+                    label: 'Input',
+                    elements: [{ type: 'Control', scope: '#/properties/--input' }]
+                }
+            ]
+        };
+
+        expect(parseUiSchema(uiSchema)).toBe(uiSchema);
+        expect(() => parseUiSchema({ type: 'Stepper', elements: [] })).toThrow(
+            'UI schema element # has the unsupported type Stepper'
+        );
+        expect(() =>
+            parseUiSchema({ type: 'Categorization', elements: [{ type: 'Group', elements: [] }] })
+        ).toThrow('UI schema element #/elements/0 must be a Category');
+        expect(() =>
+            parseUiSchema({
+                type: 'VerticalLayout',
+                elements: [{ type: 'Control', scope: '#/properties/a', rule: { effect: 'FADE' } }]
+            })
+        ).toThrow('UI schema rule #/elements/0/rule has no effect of SHOW, HIDE, ENABLE, DISABLE');
+    });
+
+    it('maps top-level scopes to parameter keys', () => {
+        expect(getScopeKey('#/properties/--outdir')).toBe('--outdir');
+        expect(getScopeKey('#/properties/a~1b')).toBe('a/b');
+        expect(getScopeKey('#/properties/--resources/properties/cpus')).toBeUndefined();
+    });
+
+    it('applies SHOW/HIDE/ENABLE/DISABLE rules to the current values', () => {
+        const condition = { scope: '#/properties/--run_kraken', schema: { const: true } };
+
+        expect(getRuleState({ effect: 'SHOW', condition }, { '--run_kraken': true })).toEqual({
+            visible: true,
+            enabled: true
+        });
+        expect(getRuleState({ effect: 'HIDE', condition }, { '--run_kraken': true })).toEqual({
+            visible: false,
+            enabled: true
+        });
+        expect(getRuleState({ effect: 'DISABLE', condition }, { '--run_kraken': true })).toEqual({
+            visible: true,
+            enabled: false
+        });
+        expect(getRuleState({ effect: 'ENABLE', condition }, {})).toEqual({
+            visible: true,
+            enabled: true
+        });
+        expect(
+            getRuleState(
+                { effect: 'ENABLE', condition: { ...condition, failWhenUndefined: true } },
+                {}
+            ).enabled
+        ).toBe(false);
+        expect(
+            getRuleState(
+                {
+                    effect: 'SHOW',
+                    condition: {
+                        type: 'AND',
+                        conditions: [
+                            condition,
+                            { scope: '#/properties/--db/properties/name', expectedValue: 'std' }
+                        ]
+                    }
+                },
+                { '--run_kraken': true, '--db': { name: 'std' } }
+            ).visible
+        ).toBe(true);
+    });
+
+    it('lists the parameters a layout places, or only the visible ones', () => {
+        const layout = parseUiSchema({
+            type: 'VerticalLayout',
+            elements: [
+                { type: 'Control', scope: '#/properties/--run_kraken' },
+                {
+                    type: 'Group',
+                    label: 'Kraken',
+                    rule: {
+                        effect: 'SHOW',
+                        condition: { scope: '#/properties/--run_kraken', schema: { const: true } }
+                    },
+                    elements: [{ type: 'Control', scope: '#/properties/--kraken_db' }]
+                },
+                { type: 'Label', text: 'Notes' }
+            ]
+        });
+
+        expect([...getLayoutKeys(layout)]).toEqual(['--run_kraken', '--kraken_db']);
+        expect([...getLayoutKeys(layout, { '--run_kraken': false })]).toEqual(['--run_kraken']);
+    });
+});
@@ -0,0 +1,263 @@
+import { compile } from '$lib/schema';
+import type { AnySchema } from 'ajv';
+
+/**
+ * JsonForms UI schemas, sent as `PipelineProfile.uiSchema` to lay out a stage's
+ * parameters form. Controls point at top-level parameters by `scope`
+ * (`#/properties/<key>`); rules show, hide, enable or disable any element
+ * depending on the current values.
+ */
+
+export type RuleEffect = 'SHOW' | 'HIDE' | 'ENABLE' | 'DISABLE';
+
+export type RuleCondition =
+    | {
+          /** The value the schema is checked against, e.g. `#/properties/--run_kraken` */
+          scope: string;
+          schema: AnySchema;
+          /** Whether the condition fails when the value is missing */
+          failWhenUndefined?: boolean;
+      }
+    | { scope: string; expectedValue: unknown }
+    | { type: 'AND' | 'OR'; conditions: RuleCondition[] };
+
+export type UiRule = {
+    effect: RuleEffect;
+    condition: RuleCondition;
+};
+
+export type ControlOptions = {
+    /** Enter a string in a multi-line text area */
+    multi?: boolean;
+    readonly?: boolean;
+    /** The widget, e.g. `radio` for an enum */
+    format?: string;
+};
+
+export type UiControl = {
+    type: 'Control';
+    scope: string;
+    /** Replaces the field label */
+    label?: string;
+    options?: ControlOptions;
+    rule?: UiRule;
+};
+
+export type UiLayout = {
+    type: 'VerticalLayout' | 'HorizontalLayout';
+    elements: UiSchemaElement[];
+    rule?: UiRule;
+};
+
+export type UiGroup = {
+    type: 'Group';
+    label?: string;
+    elements: UiSchemaElement[];
+    rule?: UiRule;
+};
+
+export type UiCategory = {
+    type: 'Category';
+    label: string;
+    elements: UiSchemaElement[];
+    rule?: UiRule;
+};
+
+export type UiCategorization = {
+    type: 'Categorization';
+    elements: UiCategory[];
+    rule?: UiRule;
+};
+
+export type UiLabel = {
+    type: 'Label';
+    text: string;
+    rule?: UiRule;
+};
+
+export type UiSchemaElement =
+    UiControl | UiLayout | UiGroup | UiCategorization | UiCategory | UiLabel;
+
+/** How the rule of an element leaves it */
+export type RuleState = {
+    visible: boolean;
+    enabled: boolean;
+};
+
+const LAYOUT_TYPES = ['VerticalLayout', 'HorizontalLayout', 'Group', 'Category'];
+const RULE_EFFECTS: RuleEffect[] = ['SHOW', 'HIDE', 'ENABLE', 'DISABLE'];
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+    return !!value && typeof value === 'object' && !Array.isArray(value);
+}
+
+/**
+ * Check that a UI schema only uses the supported JsonForms vocabulary.
+ *
+ * @param value - the UI schema of a profile
+ * @returns the UI schema
+ * @throws naming the first element that is not understood
+ */
+export function parseUiSchema(value: unknown): UiSchemaElement {
+    checkElement(value, '#');
+    return value as UiSchemaElement;
+}
+
+function checkElement(value: unknown, path: string): void {
+    if (!isRecord(value) || typeof value.type !== 'string') {
+        throw new Error(`UI schema element ${path} has no type`);
+    }
+    if (value.rule !== undefined) {
+        checkRule(value.rule, `${path}/rule`);
+    }
+
+    if (value.type === 'Control') {
+        if (typeof value.scope !== 'string') {
+            throw new Error(`UI schema control ${path} has no scope`);
+        }
+        return;
+    }
+    if (value.type === 'Label') {
+        if (typeof value.text !== 'string') {
+            throw new Error(`UI schema label ${path} has no text`);
+        }
+        return;
+    }
+    if (!LAYOUT_TYPES.includes(value.type) && value.type !== 'Categorization') {
+        throw new Error(`UI schema element ${path} has the unsupported type ${value.type}`);
+    }
+    if (!Array.isArray(value.elements)) {
+        throw new Error(`UI schema ${value.type} ${path} has no elements`);
+    }
+
+    value.elements.forEach((element, index) => {
+        const elementPath = `${path}/elements/${index}`;
+        if (
+            value.type === 'Categorization' &&
+            (element as { type?: unknown })?.type !== 'Category'
+        ) {
+            throw new Error(`UI schema element ${elementPath} must be a Category`);
+        }
+        checkElement(element, elementPath);
+    });
+}
+
+function checkRule(value: unknown, path: string): void {
+    if (!isRecord(value) || !RULE_EFFECTS.includes(value.effect as RuleEffect)) {
+        throw new Error(`UI schema rule ${path} has no effect of ${RULE_EFFECTS.join(', ')}`);
+    }
+    checkCondition(value.condition, `${path}/condition`);
+}
+
+function checkCondition(value: unknown, path: string): void {
+    if (isRecord(value) && (value.type === 'AND' || value.type === 'OR')) {
+        if (!Array.isArray(value.conditions)) {
+            throw new Error(`UI schema condition ${path} has no conditions`);
+        }
+        value.conditions.forEach((condition, index) =>
+            checkCondition(condition, `${path}/conditions/${index}`)
+        );
+        return;
+    }
+    if (
+        !isRecord(value) ||
+        typeof value.scope !== 'string' ||
+        !('schema' in value || 'expectedValue' in value)
+    ) {
+        throw new Error(`UI schema condition ${path} needs a scope and a schema`);
+    }
+}
+
+/**
+ * The top-level parameter a scope points at.
+ *
+ * @param scope - a JSON pointer like `#/properties/--outdir`
+ * @returns the parameter key; undefined for other scopes, e.g. nested ones
+ */
+export function getScopeKey(scope: string): string | undefined {
+    const match = /^#\/properties\/([^/]+)$/.exec(scope);
+    return match ? decodePointerSegment(match[1]) : undefined;
+}
+
+function decodePointerSegment(segment: string): string {
+    return segment.replace(/~1/g, '/').replace(/~0/g, '~');
+}
+
+function resolveScope(scope: string, data: Record<string, unknown>): unknown {
+    const segments = scope.replace(/^#\/?/, '').split('/').filter(Boolean);
+    let value: unknown = data;
+
+    for (let i = 0; i < segments.length; i += 2) {
+        if (segments[i] !== 'properties' || !isRecord(value)) {
+            return undefined;
+        }
+        value = value[decodePointerSegment(segments[i + 1] ?? '')];
+    }
+
+    return value;
+}
+
+function evaluateCondition(condition: RuleCondition, data: Record<string, unknown>): boolean {
+    if ('conditions' in condition) {
+        return condition.type === 'AND'
+            ? condition.conditions.every((item) => evaluateCondition(item, data))
+            : condition.conditions.some((item) => evaluateCondition(item, data));
+    }
+
+    const value = resolveScope(condition.scope, data);
+    if ('expectedValue' in condition) {
+        return value === condition.expectedValue;
+    }
+    if (value === undefined) {
+        return !condition.failWhenUndefined;
+    }
+    return compile(condition.schema)(value);
+}
+
+/**
+ * Apply the rule of an element to the current values.
+ *
+ * @param rule - the rule, if the element has one
+ * @param data - the stage's values, typed as for validation
+ */
+export function getRuleState(rule: UiRule | undefined, data: Record<string, unknown>): RuleState {
+    if (!rule) {
+        return { visible: true, enabled: true };
+    }
+
+    const matches = evaluateCondition(rule.condition, data);
+    return {
+        visible: rule.effect === 'SHOW' ? matches : rule.effect === 'HIDE' ? !matches : true,
+        enabled: rule.effect === 'ENABLE' ? matches : rule.effect === 'DISABLE' ? !matches : true
+    };
+}
+
+/**
+ * List the parameters a UI schema places.
+ *
+ * @param element - the UI schema
+ * @param data - the current values; only visible elements are listed if given
+ */
+export function getLayoutKeys(
+    element: UiSchemaElement,
+    data?: Record<string, unknown>
+): Set<string> {
+    const keys = new Set<string>();
+
+    const collect = (item: UiSchemaElement) => {
+        if (data && !getRuleState(item.rule, data).visible) {
+            return;
+        }
+        if (item.type === 'Control') {
+            const key = getScopeKey(item.scope);
+            if (key) {
+                keys.add(key);
+            }
+        } else if (item.type !== 'Label') {
+            item.elements.forEach(collect);
+        }
+    };
+    collect(element);
+
+    return keys;
+}
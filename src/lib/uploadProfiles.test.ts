@@ -0,0 +1,113 @@
+import { describe, expect, it, vi } from 'vitest';
+import {
+    getCompanionErrors,
+    getFileNameWarnings,
+    getFileType,
+    getSampleKey,
+    getUploadProfiles,
+    inspectFile,
+    UPLOAD_PROFILES
+} from './uploadProfiles';
+import type { UploadProfile } from './uploadProfiles';
+
+function profile(id: string): UploadProfile {
+    const found = UPLOAD_PROFILES.find((p) => p.id === id);
+    if (!found) throw new Error(`No upload profile ${id}`);
+    return found;
+}
+
+describe('getUploadProfiles', () => {
+    it('offers the profiles of any bucket and those of the given bucket', () => {
+        const profiles: UploadProfile[] = [
+            { ...profile('fastq'), id: 'any' },
+            { ...profile('fasta'), id: 'raw', bucket: 'raw-bucket' },
+            { ...profile('nanopore'), id: 'other', bucket: 'other-bucket' }
+        ];
+
+        expect(getUploadProfiles('raw-bucket', profiles).map((p) => p.id)).toEqual(['any', 'raw']);
+        expect(getUploadProfiles('raw-bucket').map((p) => p.id)).toEqual([
+            'fastq',
+            'fasta',
+            'alignment',
+            'nanopore'
+        ]);
+    });
+});
+
+describe('getFileType', () => {
+    it('matches the extensions of a profile, ignoring case', () => {
+        expect(getFileType(profile('fastq'), 'S1_R1.FASTQ.GZ')?.label).toBe('FASTQ');
+        expect(getFileType(profile('fastq'), 'contigs.fasta')).toBeUndefined();
+        expect(getFileType(profile('alignment'), 'S1.bam.bai')?.label).toBe('BAM index');
+        expect(getFileType(profile('nanopore'), 'run.pod5')?.label).toBe('POD5');
+    });
+});
+
+describe('inspectFile', () => {
+    it('runs the inspector of the file type', async () => {
+        const file = new File(['@read\nACGT\n+\nIIII\n'], 'contigs.fasta');
+
+        const inspection = await inspectFile(profile('fasta'), file);
+
+        expect(inspection.errors).toEqual(['The file does not start with a ">" header']);
+    });
+
+    it('passes files without an inspector and reports inspectors that throw', async () => {
+        const failing: UploadProfile = {
+            ...profile('fasta'),
+            fileTypes: [
+                {
+                    label: 'FASTA',
+                    extensions: ['.fasta'],
+                    inspect: vi.fn().mockRejectedValue(new Error('boom'))
+                }
+            ]
+        };
+
+        await expect(inspectFile(profile('alignment'), new File(['x'], 'a.bai'))).resolves.toEqual({
+            name: 'a.bai',
+            errors: [],
+            warnings: []
+        });
+        await expect(inspectFile(failing, new File(['x'], 'a.fasta'))).resolves.toEqual({
+            name: 'a.fasta',
+            errors: ['The file could not be read: boom'],
+            warnings: []
+        });
+    });
+});
+
+describe('getCompanionErrors', () => {
+    it('requires an index next to every BAM and CRAM file', () => {
+        const errors = getCompanionErrors(profile('alignment'), [
+            'S1.bam',
+            'S1.bam.bai',
+            'S2.BAM',
+            'S2.csi',
+            'S3.bam',
+            'S4.cram',
+            'S4.bai'
+        ]);
+
+        expect(Object.fromEntries(errors)).toEqual({
+            'S3.bam': ['No matching .bai or .csi file was selected'],
+            'S4.cram': ['No matching .crai file was selected']
+        });
+    });
+});
+
+describe('getFileNameWarnings', () => {
+    it('checks read pairs only where the profile asks for it', () => {
+        expect(getFileNameWarnings(profile('fastq'), ['S1_R1.fastq.gz']).size).toBe(1);
+        expect(getFileNameWarnings(profile('fasta'), ['S1_R1.fastq.gz']).size).toBe(0);
+    });
+});
+
+describe('getSampleKey', () => {
+    it('puts the archive under the prefix of the profile', () => {
+        expect(getSampleKey(profile('fastq'), '123')).toBe('unprocessed/sample-123.tar');
+        expect(getSampleKey(profile('nanopore'), '123')).toBe(
+            'unprocessed/nanopore/sample-123.tar'
+        );
+    });
+});
@@ -0,0 +1,229 @@
+import { getPairingWarnings, inspectFastq } from '$lib/fastq';
+import { inspectBam, inspectCram, inspectFast5, inspectFasta, inspectPod5 } from '$lib/fileTypes';
+import type { FileInspection, FileInspector } from '$lib/fileTypes';
+
+/**
+ * A kind of file an upload profile accepts.
+ */
+export interface FileType {
+    /** The format name shown to the user, e.g. `FASTQ` */
+    label: string;
+    /** The accepted name endings, in lower case, e.g. `.fastq.gz` */
+    extensions: string[];
+    /** The pre-flight check of the file's content; not every type has one */
+    inspect?: FileInspector;
+    /**
+     * Name endings of the companion file every file of this type needs, e.g.
+     * `.bai` for a BAM index. Any one of them will do, either appended to the
+     * file name (`x.bam.bai`) or replacing its extension (`x.bai`).
+     */
+    companions?: string[];
+}
+
+/**
+ * What a sample upload accepts and where it goes: the files allowed in the
+ * archive and how they are checked, the archive directory they are packed
+ * under, and the destination bucket and key prefix.
+ */
+export interface UploadProfile {
+    id: string;
+    label: string;
+    /** The destination bucket; the upload form's bucket when missing */
+    bucket?: string;
+    /** The key prefix of the uploaded archives, e.g. `unprocessed/` */
+    prefix: string;
+    /** The archive directory of the files, e.g. `sequencing` */
+    archiveDir: string;
+    fileTypes: FileType[];
+    /** Check that paired-end FASTQ files come with both mates */
+    checkPairing?: boolean;
+    /** Samples can be queued from a sample sheet (whose file columns list FASTQ files) */
+    hasSampleSheets?: boolean;
+}
+
+const BAM_INDEX: FileType = { label: 'BAM index', extensions: ['.bai', '.csi'] };
+const CRAM_INDEX: FileType = { label: 'CRAM index', extensions: ['.crai'] };
+
+/**
+ * The upload profiles, the first being the default. Every archive lands under
+ * `unprocessed/`, where the pipeline picks new samples up.
+ */
+export const UPLOAD_PROFILES: UploadProfile[] = [
+    {
+        id: 'fastq',
+        label: 'FASTQ',
+        prefix: 'unprocessed/',
+        archiveDir: 'sequencing',
+        fileTypes: [
+            {
+                label: 'FASTQ',
+                extensions: ['.fastq', '.fastq.gz', '.fq', '.fq.gz'],
+                inspect: inspectFastq
+            }
+        ],
+        checkPairing: true,
+        hasSampleSheets: true
+    },
+    {
+        id: 'fasta',
+        label: 'FASTA assembly',
+        prefix: 'unprocessed/assemblies/',
+        archiveDir: 'assembly',
+        fileTypes: [
+            {
+                label: 'FASTA',
+                extensions: ['.fasta', '.fasta.gz', '.fa', '.fa.gz', '.fna', '.fna.gz'],
+                inspect: inspectFasta
+            }
+        ]
+    },
+    {
+        id: 'alignment',
+        label: 'BAM/CRAM alignment',
+        prefix: 'unprocessed/alignments/',
+        archiveDir: 'alignment',
+        fileTypes: [
+            {
+                label: 'BAM',
+                extensions: ['.bam'],
+                inspect: inspectBam,
+                companions: BAM_INDEX.extensions
+            },
+            {
+                label: 'CRAM',
+                extensions: ['.cram'],
+                inspect: inspectCram,
+                companions: CRAM_INDEX.extensions
+            },
+            BAM_INDEX,
+            CRAM_INDEX
+        ]
+    },
+    {
+        id: 'nanopore',
+        label: 'Nanopore POD5/FAST5',
+        prefix: 'unprocessed/nanopore/',
+        archiveDir: 'nanopore',
+        fileTypes: [
+            { label: 'POD5', extensions: ['.pod5'], inspect: inspectPod5 },
+            { label: 'FAST5', extensions: ['.fast5'], inspect: inspectFast5 }
+        ]
+    }
+];
+
+/**
+ * Get the upload profiles offered for a bucket.
+ *
+ * @param bucket - the upload form's bucket
+ * @param profiles - the profiles to choose from
+ */
+export function getUploadProfiles(
+    bucket: string,
+    profiles: UploadProfile[] = UPLOAD_PROFILES
+): UploadProfile[] {
+    return profiles.filter((profile) => !profile.bucket || profile.bucket === bucket);
+}
+
+/**
+ * Get the extensions a profile accepts, e.g. for the file picker hint.
+ */
+export function getAcceptedExtensions(profile: UploadProfile): string[] {
+    return profile.fileTypes.flatMap((type) => type.extensions);
+}
+
+function getExtension(type: FileType, name: string): string | undefined {
+    const lower = name.toLowerCase();
+    // The longest match wins, so `.fastq.gz` is not taken for `.gz`
+    return type.extensions
+        .filter((extension) => lower.endsWith(extension))
+        .sort((a, b) => b.length - a.length)[0];
+}
+
+/**
+ * Get the type of a file in a profile from its name.
+ *
+ * @param profile - the upload profile
+ * @param name - the file name
+ * @returns the file type, or undefined if the profile does not accept the file
+ */
+export function getFileType(profile: UploadProfile, name: string): FileType | undefined {
+    return profile.fileTypes.find((type) => getExtension(type, name) !== undefined);
+}
+
+/**
+ * Run the pre-flight check of a file's type. Files without one pass.
+ *
+ * @param profile - the upload profile
+ * @param file - the file to inspect
+ */
+export async function inspectFile(profile: UploadProfile, file: File): Promise<FileInspection> {
+    const inspect = getFileType(profile, file.name)?.inspect;
+    if (!inspect) {
+        return { name: file.name, errors: [], warnings: [] };
+    }
+
+    try {
+        return await inspect(file);
+    } catch (err) {
+        const message = err instanceof Error ? err.message : String(err);
+        return {
+            name: file.name,
+            errors: [`The file could not be read: ${message}`],
+            warnings: []
+        };
+    }
+}
+
+/**
+ * Find files whose required companion file was not selected, e.g. a BAM
+ * file without its index.
+ *
+ * @param profile - the upload profile
+ * @param names - the selected file names
+ * @returns errors per file name
+ */
+export function getCompanionErrors(profile: UploadProfile, names: string[]): Map<string, string[]> {
+    const selected = new Set(names.map((name) => name.toLowerCase()));
+    const errors = new Map<string, string[]>();
+
+    for (const name of names) {
+        const type = getFileType(profile, name);
+        const extension = type && getExtension(type, name);
+        if (!type?.companions || !extension) continue;
+
+        const lower = name.toLowerCase();
+        const stem = lower.slice(0, -extension.length);
+        const hasCompanion = type.companions.some(
+            (companion) => selected.has(lower + companion) || selected.has(stem + companion)
+        );
+        if (!hasCompanion) {
+            errors.set(name, [`No matching ${type.companions.join(' or ')} file was selected`]);
+        }
+    }
+    return errors;
+}
+
+/**
+ * Get the warnings about the selected file names, e.g. paired-end FASTQ
+ * files without a mate.
+ *
+ * @param profile - the upload profile
+ * @param names - the selected file names
+ * @returns warnings per file name
+ */
+export function getFileNameWarnings(
+    profile: UploadProfile,
+    names: string[]
+): Map<string, string[]> {
+    return profile.checkPairing ? getPairingWarnings(names) : new Map();
+}
+
+/**
+ * Get the S3 key of a sample archive.
+ *
+ * @param profile - the upload profile
+ * @param sampleId - the sample ID
+ */
+export function getSampleKey(profile: UploadProfile, sampleId: string): string {
+    return `${profile.prefix}sample-${sampleId}.tar`;
+}
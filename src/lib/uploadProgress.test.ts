@@ -0,0 +1,109 @@
+import { describe, expect, it } from 'vitest';
+import {
+    countPartStates,
+    createUploadProgress,
+    formatDuration,
+    getEta,
+    humanReadable,
+    recordPartStatus,
+    recordSentBytes
+} from './uploadProgress';
+
+describe('createUploadProgress', () => {
+    it('starts with every part pending and a smaller last part', () => {
+        const progress = createUploadProgress(25, 10, 0);
+
+        expect(progress.parts.map((part) => [part.partNumber, part.size, part.state])).toEqual([
+            [1, 10, 'pending'],
+            [2, 10, 'pending'],
+            [3, 5, 'pending']
+        ]);
+        expect(getEta(progress)).toBeUndefined();
+    });
+});
+
+describe('recordSentBytes', () => {
+    it('smooths the throughput and estimates the time left', () => {
+        const progress = createUploadProgress(10_000, 5000, 0);
+
+        recordSentBytes(progress, 1000, { partNumber: 1, attempt: 1 }, 1000);
+        expect(progress.throughput).toBe(1000);
+        expect(getEta(progress)).toBe(9);
+
+        // A burst moves the rate only part of the way
+        recordSentBytes(progress, 4000, { partNumber: 1, attempt: 1 }, 2000);
+        expect(progress.throughput).toBeGreaterThan(1000);
+        expect(progress.throughput).toBeLessThan(3000);
+        expect(progress.parts[0].bytesSent).toBe(4000);
+    });
+
+    it('merges samples that are too close together', () => {
+        const progress = createUploadProgress(10_000, 5000, 0);
+
+        recordSentBytes(progress, 100, { partNumber: 1, attempt: 1 }, 100);
+        expect(progress.throughput).toBe(0);
+
+        recordSentBytes(progress, 500, { partNumber: 1, attempt: 1 }, 500);
+        expect(progress.throughput).toBe(1000);
+    });
+
+    it('counts parts skipped on resume as sent but not in the throughput', () => {
+        const progress = createUploadProgress(10_000, 5000, 0);
+
+        recordSentBytes(progress, 5000, { partNumber: 1, attempt: 0 }, 1000);
+
+        expect(progress.bytesSent).toBe(5000);
+        expect(progress.throughput).toBe(0);
+    });
+});
+
+describe('recordPartStatus', () => {
+    it('tracks part states, retries and backoff waits', () => {
+        const progress = createUploadProgress(20, 10, 0);
+
+        recordPartStatus(progress, { partNumber: 1, state: 'in-flight', attempt: 1 }, 0);
+        recordPartStatus(
+            progress,
+            { partNumber: 1, state: 'retrying', attempt: 1, delayMs: 600, reason: '503' },
+            1000
+        );
+        recordPartStatus(progress, { partNumber: 2, state: 'done', attempt: 0 }, 1000);
+
+        expect(progress.parts[0]).toMatchObject({
+            state: 'retrying',
+            attempt: 1,
+            retryAt: 1600,
+            reason: '503'
+        });
+        expect(progress.parts[1]).toMatchObject({ state: 'done', bytesSent: 10, isResumed: true });
+        expect(progress.retries).toBe(1);
+        expect(countPartStates(progress)).toEqual({
+            pending: 0,
+            'in-flight': 0,
+            retrying: 1,
+            done: 1,
+            failed: 0
+        });
+
+        recordPartStatus(progress, { partNumber: 1, state: 'in-flight', attempt: 2 }, 1600);
+        expect(progress.parts[0]).toMatchObject({ state: 'in-flight', retryAt: undefined });
+    });
+});
+
+describe('humanReadable', () => {
+    it('formats bytes in the largest unit below 1024', () => {
+        expect(humanReadable(512)).toBe('512 B');
+        expect(humanReadable(1024)).toBe('1.0 KB');
+        expect(humanReadable(42 * 1024 * 1024)).toBe('42 MB');
+        expect(humanReadable(3 * 1024 ** 5)).toBe('3072 TB');
+    });
+});
+
+describe('formatDuration', () => {
+    it('formats seconds, minutes and hours', () => {
+        expect(formatDuration(42.4)).toBe('42 s');
+        expect(formatDuration(200)).toBe('3 min 20 s');
+        expect(formatDuration(900)).toBe('15 min');
+        expect(formatDuration(3900)).toBe('1 h 5 min');
+    });
+});
@@ -0,0 +1,214 @@
+import { getNumParts } from '$lib/mpu';
+import type { PartStatus } from '$lib/mpu';
+
+/**
+ * The progress of one multipart upload: a smoothed throughput and ETA, and the
+ * state of every part with its retries.
+ *
+ * The model is a plain object updated in place from the `onProgress` and
+ * `onPartStatus` callbacks of `multiPartUpload`, so it can live in reactive
+ * state. Times are passed in, which keeps the functions pure enough to test.
+ */
+export interface UploadProgress {
+    totalBytes: number;
+    /** Bytes that reached storage or are counted as sent */
+    bytesSent: number;
+    /** Bytes per second, smoothed; 0 until the first sample */
+    throughput: number;
+    /** When the throughput was last sampled */
+    sampledAt: number;
+    /** Bytes sent since the last sample */
+    unsampledBytes: number;
+    parts: PartProgress[];
+    /** Failed attempts that were retried, over all parts */
+    retries: number;
+}
+
+export type PartState = 'pending' | 'in-flight' | 'retrying' | 'done' | 'failed';
+
+export interface PartProgress {
+    partNumber: number;
+    /** The size of the part; the last part may be smaller */
+    size: number;
+    state: PartState;
+    /** Bytes of the part sent so far */
+    bytesSent: number;
+    /** 1-based attempt number, or 0 until sent (or when skipped on resume) */
+    attempt: number;
+    /** Whether the part was stored by an earlier session and not sent again */
+    isResumed?: boolean;
+    /** When the next attempt starts, while retrying */
+    retryAt?: number;
+    /** Why the last attempt failed */
+    reason?: string;
+}
+
+/** Throughput samples closer together than this are merged */
+const MIN_SAMPLE_MS = 500;
+/** The time constant of the throughput smoothing */
+const SMOOTHING_MS = 5000;
+
+/**
+ * Create the progress of an upload whose parts are all pending.
+ *
+ * @param totalBytes - the size of the upload
+ * @param partSize - the part size of the upload
+ * @param now - the current time, in milliseconds
+ */
+export function createUploadProgress(
+    totalBytes: number,
+    partSize: number,
+    now: number
+): UploadProgress {
+    const parts = Array.from({ length: getNumParts(totalBytes, partSize) }, (_, i) => ({
+        partNumber: i + 1,
+        size: Math.max(0, Math.min(partSize, totalBytes - i * partSize)),
+        state: 'pending' as const,
+        bytesSent: 0,
+        attempt: 0
+    }));
+
+    return {
+        totalBytes,
+        bytesSent: 0,
+        throughput: 0,
+        sampledAt: now,
+        unsampledBytes: 0,
+        parts,
+        retries: 0
+    };
+}
+
+/**
+ * Record the bytes reported by `onProgress`. Bytes of parts skipped on resume
+ * (attempt 0) are counted as sent but left out of the throughput.
+ *
+ * @param progress - the upload progress
+ * @param bytesSent - the total bytes sent so far
+ * @param ctx - the part that sent them
+ * @param now - the current time, in milliseconds
+ */
+export function recordSentBytes(
+    progress: UploadProgress,
+    bytesSent: number,
+    ctx: { partNumber: number; attempt: number },
+    now: number
+): void {
+    const delta = Math.max(0, bytesSent - progress.bytesSent);
+    progress.bytesSent = Math.max(progress.bytesSent, bytesSent);
+
+    const part = progress.parts[ctx.partNumber - 1];
+    if (part) {
+        part.bytesSent = Math.min(part.size, part.bytesSent + delta);
+    }
+
+    if (ctx.attempt === 0) {
+        return;
+    }
+
+    progress.unsampledBytes += delta;
+    const elapsed = now - progress.sampledAt;
+    if (elapsed < MIN_SAMPLE_MS) {
+        return;
+    }
+
+    // Exponential smoothing weighted by the time since the last sample, so
+    // the rate follows the connection without jumping with every callback
+    const rate = (progress.unsampledBytes * 1000) / elapsed;
+    const weight = 1 - Math.exp(-elapsed / SMOOTHING_MS);
+    progress.throughput =
+        progress.throughput === 0
+            ? rate
+            : progress.throughput + weight * (rate - progress.throughput);
+    progress.sampledAt = now;
+    progress.unsampledBytes = 0;
+}
+
+/**
+ * Record a part state change reported by `onPartStatus`.
+ *
+ * @param progress - the upload progress
+ * @param status - the new state of the part
+ * @param now - the current time, in milliseconds
+ */
+export function recordPartStatus(progress: UploadProgress, status: PartStatus, now: number): void {
+    const part = progress.parts[status.partNumber - 1];
+    if (!part) {
+        return;
+    }
+
+    part.state = status.state;
+    part.attempt = status.attempt;
+    part.retryAt = undefined;
+    if (status.state === 'retrying') {
+        progress.retries += 1;
+        part.retryAt = now + (status.delayMs ?? 0);
+    }
+    if (status.reason !== undefined) {
+        part.reason = status.reason;
+    }
+    if (status.state === 'done') {
+        part.bytesSent = part.size;
+        part.isResumed = status.attempt === 0;
+    }
+}
+
+/**
+ * Estimate the seconds left in an upload from its smoothed throughput.
+ *
+ * @returns the seconds left, or undefined before there is a throughput
+ */
+export function getEta(progress: UploadProgress): number | undefined {
+    if (progress.throughput <= 0) {
+        return undefined;
+    }
+    return Math.max(0, progress.totalBytes - progress.bytesSent) / progress.throughput;
+}
+
+/**
+ * Count the parts of an upload in each state.
+ */
+export function countPartStates(progress: UploadProgress): Record<PartState, number> {
+    const counts: Record<PartState, number> = {
+        pending: 0,
+        'in-flight': 0,
+        retrying: 0,
+        done: 0,
+        failed: 0
+    };
+    for (const part of progress.parts) {
+        counts[part.state] += 1;
+    }
+    return counts;
+}
+
+/**
+ * Compute a number of bytes to a human readable string
+ * @param n - the number of bytes
+ */
+export function humanReadable(n = 0) {
+    const u = ['B', 'KB', 'MB', 'GB', 'TB'];
+    let i = 0;
+    while (n >= 1024 && i < u.length - 1) {
+        n /= 1024;
+        i++;
+    }
+    return `${n < 10 ? n.toFixed(1) : Math.round(n)} ${u[i]}`;
+}
+
+/**
+ * Format a number of seconds as a short duration, e.g. `1 h 5 min` or `42 s`.
+ */
+export function formatDuration(seconds: number): string {
+    const total = Math.max(0, Math.round(seconds));
+    const hours = Math.floor(total / 3600);
+    const minutes = Math.floor((total % 3600) / 60);
+    if (hours > 0) {
+        return minutes > 0 ? `${hours} h ${minutes} min` : `${hours} h`;
+    }
+    if (minutes > 0) {
+        const rest = total % 60;
+        return minutes < 10 && rest > 0 ? `${minutes} min ${rest} s` : `${minutes} min`;
+    }
+    return `${total} s`;
+}
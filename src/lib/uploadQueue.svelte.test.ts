@@ -0,0 +1,239 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { CanceledError } from 'axios';
+import { multiPartUpload } from '$lib/mpu';
+import { packChunks } from '$lib/packer';
+import { discardUploadSession, getUploadSession, saveUploadSession } from '$lib/uploadSessions';
+import { createUploadQueue } from './uploadQueue.svelte';
+import type { MultipartUploadParams, MultipartUploadResult } from '$lib/mpu';
+import type { UploadSession } from '$lib/uploadSessions';
+
+vi.mock('$lib/mpu', async (importOriginal) => ({
+    ...(await importOriginal<typeof import('$lib/mpu')>()),
+    getPartSize: vi.fn(() => 10 * 1024 * 1024),
+    multiPartUpload: vi.fn()
+}));
+
+vi.mock('$lib/stream', () => ({
+    DEFAULT_ARCHIVE_DIR: 'sequencing',
+    tarSize: vi.fn(() => 100)
+}));
+
+vi.mock('$lib/packer', () => ({
+    packChunks: vi.fn()
+}));
+
+vi.mock('$lib/uploadSessions', () => ({
+    deleteUploadSession: vi.fn(),
+    discardUploadSession: vi.fn(),
+    getFilesFingerprint: vi.fn(async (files: File[]) => files.map((f) => f.name).join()),
+    getUploadSession: vi.fn(),
+    isUploadSessionExpired: vi.fn(() => false),
+    saveUploadSession: vi.fn(async () => {})
+}));
+
+const result = { checksum: 'AAAAAAAAAAA=', checksumVerified: true } as MultipartUploadResult;
+
+interface PendingUpload {
+    params: MultipartUploadParams;
+    finish: () => void;
+    fail: (err: Error) => void;
+}
+
+/**
+ * Make every upload wait until the test finishes or fails it, and reject
+ * like axios when its signal is aborted.
+ */
+function controlUploads(): PendingUpload[] {
+    const pending: PendingUpload[] = [];
+    vi.mocked(multiPartUpload).mockImplementation(
+        (_stream, _size, params) =>
+            new Promise((resolve, reject) => {
+                params.signal?.addEventListener('abort', () => reject(new CanceledError()));
+                void params.onUploadCreated?.(`upload-${pending.length + 1}`);
+                pending.push({
+                    params,
+                    finish: () => resolve(result),
+                    fail: reject
+                });
+            })
+    );
+    return pending;
+}
+
+function sample(name: string) {
+    return {
+        meta: {
+            sampleId: name,
+            sampleType: 'type',
+            sampleMatrix: 'matrix',
+            sampleCollectionDate: '2025-01-01T00:00:00.000+00:00'
+        },
+        files: [new File(['@r1'], `${name}.fastq.gz`)],
+        bucket: 'example-bucket',
+        key: `unprocessed/sample-${name}.tar`
+    };
+}
+
+describe('createUploadQueue', () => {
+    beforeEach(() => {
+        vi.mocked(getUploadSession).mockResolvedValue(undefined);
+    });
+
+    it('uploads at most `concurrency` samples at once, in order', async () => {
+        const pending = controlUploads();
+        const onComplete = vi.fn();
+        const queue = createUploadQueue({
+            baseUrl: 'https://api.example.test',
+            concurrency: 2,
+            onComplete
+        });
+
+        const entries = ['a', 'b', 'c'].map((name) => queue.add(sample(name)));
+
+        await vi.waitFor(() => expect(pending).toHaveLength(2));
+        expect(entries.map((e) => e.upload.state)).toEqual(['uploading', 'uploading', 'queued']);
+        expect(pending.map((p) => p.params.key)).toEqual([
+            'unprocessed/sample-a.tar',
+            'unprocessed/sample-b.tar'
+        ]);
+
+        pending[0].finish();
+        await vi.waitFor(() => expect(pending).toHaveLength(3));
+        expect(entries[0].upload.state).toBe('complete');
+        expect(onComplete).toHaveBeenCalledWith(entries[0], result);
+        expect(entries[2].upload.state).toBe('uploading');
+    });
+
+    it('tracks the part states and retries of a running entry', async () => {
+        const pending = controlUploads();
+        const queue = createUploadQueue({ baseUrl: 'https://api.example.test' });
+        const entry = queue.add(sample('a'));
+        await vi.waitFor(() => expect(pending).toHaveLength(1));
+        expect(entry.upload.progress?.parts).toMatchObject([{ partNumber: 1, state: 'pending' }]);
+
+        const { onPartStatus, onProgress } = pending[0].params;
+        onPartStatus?.({ partNumber: 1, state: 'in-flight', attempt: 1 });
+        onProgress?.(40, 100, { partNumber: 1, numParts: 1, partSize: 100, attempt: 1 });
+        onPartStatus?.({
+            partNumber: 1,
+            state: 'retrying',
+            attempt: 1,
+            delayMs: 300,
+            reason: '503 Service Unavailable'
+        });
+
+        expect(entry.upload.bytesSent).toBe(40);
+        expect(entry.upload.progress).toMatchObject({
+            bytesSent: 40,
+            retries: 1,
+            parts: [
+                {
+                    state: 'retrying',
+                    attempt: 1,
+                    bytesSent: 40,
+                    reason: '503 Service Unavailable'
+                }
+            ]
+        });
+    });
+
+    it('keeps the session when paused and continues it when resumed', async () => {
+        const pending = controlUploads();
+        const queue = createUploadQueue({ baseUrl: 'https://api.example.test' });
+        const entry = queue.add(sample('a'));
+        await vi.waitFor(() => expect(pending).toHaveLength(1));
+
+        queue.pause(entry.id);
+        await vi.waitFor(() => expect(entry.upload.controller).toBeUndefined());
+        expect(entry.upload.state).toBe('paused');
+        expect(discardUploadSession).not.toHaveBeenCalled();
+
+        const session = {
+            ...sample('a'),
+            id: 'a.fastq.gz',
+            uploadId: 'upload-1',
+            partSize: 10 * 1024 * 1024,
+            totalBytes: 100,
+            parts: [{ partNumber: 1, eTag: '"etag-1"' }],
+            createdAt: Date.now(),
+            updatedAt: Date.now()
+        } as UploadSession;
+        vi.mocked(getUploadSession).mockResolvedValue(session);
+
+        queue.resume(entry.id);
+        await vi.waitFor(() => expect(pending).toHaveLength(2));
+        expect(pending[1].params.resume).toEqual({
+            uploadId: 'upload-1',
+            parts: session.parts
+        });
+    });
+
+    it('aborts the multipart upload when canceled', async () => {
+        const pending = controlUploads();
+        const queue = createUploadQueue({ baseUrl: 'https://api.example.test' });
+        const entry = queue.add(sample('a'));
+        await vi.waitFor(() => expect(pending).toHaveLength(1));
+
+        queue.cancel(entry.id);
+
+        await vi.waitFor(() => expect(discardUploadSession).toHaveBeenCalledOnce());
+        expect(entry.upload.state).toBe('canceled');
+        expect(vi.mocked(discardUploadSession).mock.calls[0][1]).toMatchObject({
+            uploadId: 'upload-1',
+            key: 'unprocessed/sample-a.tar'
+        });
+    });
+
+    it('marks a failed sample and uploads it again on retry', async () => {
+        const pending = controlUploads();
+        const onError = vi.fn();
+        const queue = createUploadQueue({ baseUrl: 'https://api.example.test', onError });
+        const entry = queue.add(sample('a'));
+        await vi.waitFor(() => expect(pending).toHaveLength(1));
+
+        pending[0].fail(new Error('Part 2 upload failed'));
+        await vi.waitFor(() => expect(entry.upload.state).toBe('failed'));
+        expect(entry.error).toBe('Part 2 upload failed');
+        expect(onError).toHaveBeenCalledOnce();
+
+        queue.retry(entry.id);
+        await vi.waitFor(() => expect(pending).toHaveLength(2));
+        expect(entry.error).toBeUndefined();
+
+        pending[1].finish();
+        await vi.waitFor(() => expect(entry.upload.state).toBe('complete'));
+    });
+
+    it('packs an entry under its archive directory and only resumes a matching session', async () => {
+        const pending = controlUploads();
+        vi.mocked(getUploadSession).mockResolvedValue({
+            ...sample('a'),
+            id: 'a.fastq.gz',
+            uploadId: 'upload-0',
+            partSize: 10 * 1024 * 1024,
+            totalBytes: 100,
+            parts: [],
+            createdAt: Date.now(),
+            updatedAt: Date.now()
+        } as UploadSession);
+        const queue = createUploadQueue({ baseUrl: 'https://api.example.test' });
+
+        queue.add({ ...sample('a'), archiveDir: 'nanopore' });
+
+        await vi.waitFor(() => expect(pending).toHaveLength(1));
+        // The saved session packed the files under `sequencing/`
+        expect(discardUploadSession).toHaveBeenCalledOnce();
+        expect(pending[0].params.resume).toBeUndefined();
+        expect(packChunks).toHaveBeenCalledWith(
+            expect.anything(),
+            expect.anything(),
+            10 * 1024 * 1024,
+            'nanopore'
+        );
+        await vi.waitFor(() =>
+            expect(saveUploadSession).toHaveBeenCalledWith(
+                expect.objectContaining({ archiveDir: 'nanopore' })
+            )
+        );
+    });
+});
@@ -0,0 +1,393 @@
+import { getPartSize, multiPartUpload } from '$lib/mpu';
+import { packChunks } from '$lib/packer';
+import { DEFAULT_ARCHIVE_DIR, tarSize } from '$lib/stream';
+import { createUploadProgress, recordPartStatus, recordSentBytes } from '$lib/uploadProgress';
+import {
+    deleteUploadSession,
+    discardUploadSession,
+    getFilesFingerprint,
+    getUploadSession,
+    isUploadSessionExpired,
+    saveUploadSession
+} from '$lib/uploadSessions';
+import type { MultipartUploadResult, OnPartStatus, OnProgress } from '$lib/mpu';
+import type { SampleMeta } from '$lib/stream';
+import type { UploadSession } from '$lib/uploadSessions';
+import type { Upload } from '$lib/components/FileUpload/types';
+
+/**
+ * A queue of sample uploads.
+ *
+ * Each entry packs its own files into its own tar and uploads it with its own
+ * multipart upload. At most `concurrency` entries upload at once; the rest
+ * wait in the queue in the order they were added.
+ *
+ * Every upload is backed by a saved upload session, so pausing an entry (or a
+ * failure) keeps the parts that already reached S3 and resuming or retrying it
+ * continues the same multipart upload. Canceling an entry aborts the upload.
+ */
+export interface UploadQueueEntry {
+    id: number;
+    /** The sample metadata written to meta.json */
+    meta: SampleMeta;
+    /** The sequencing files */
+    files: File[];
+    /** The archive directory of the files */
+    archiveDir: string;
+    bucket: string;
+    /** The destination S3 key */
+    key: string;
+    upload: Upload;
+    /** Why the last attempt failed */
+    error?: string;
+}
+
+export interface UploadQueueSample {
+    meta: SampleMeta;
+    files: File[];
+    /** The archive directory of the files, `sequencing` by default */
+    archiveDir?: string;
+    bucket: string;
+    key: string;
+}
+
+export interface UploadQueueOptions {
+    baseUrl: string;
+    /** How many samples upload at once */
+    concurrency?: number;
+    /** Called when an entry finishes uploading */
+    onComplete?: (entry: UploadQueueEntry, result: MultipartUploadResult) => void;
+    /** Called when an entry fails; it can be retried */
+    onError?: (entry: UploadQueueEntry, err: unknown) => void;
+}
+
+export interface UploadQueue {
+    readonly entries: UploadQueueEntry[];
+    /** How many samples upload at once */
+    concurrency: number;
+    /** Bytes per second sent by all entries over the last few seconds */
+    readonly throughput: number;
+    add: (sample: UploadQueueSample) => UploadQueueEntry;
+    pause: (id: number) => void;
+    resume: (id: number) => void;
+    cancel: (id: number) => void;
+    retry: (id: number) => void;
+    remove: (id: number) => void;
+    clearCompleted: () => void;
+}
+
+export const DEFAULT_QUEUE_CONCURRENCY = 2;
+
+const THROUGHPUT_WINDOW_MS = 5000;
+
+/**
+ * Get the archive name of an entry, e.g. `sample-123.tar`.
+ */
+export function getEntryFilename(entry: UploadQueueEntry): string {
+    return entry.key.split('/').pop() ?? entry.key;
+}
+
+/**
+ * Create an upload queue.
+ *
+ * @param options - the queue options
+ */
+export function createUploadQueue(options: UploadQueueOptions): UploadQueue {
+    const entries = $state<UploadQueueEntry[]>([]);
+    let concurrency = $state(Math.max(1, options.concurrency ?? DEFAULT_QUEUE_CONCURRENCY));
+    let throughput = $state(0);
+    let nextId = 1;
+
+    // Cumulative bytes sent by the queue, sampled over a sliding window
+    let totalSent = 0;
+    let samples: { time: number; bytes: number }[] = [];
+
+    function recordBytes(delta: number) {
+        const now = Date.now();
+        totalSent += delta;
+        samples.push({ time: now, bytes: totalSent });
+        while (samples.length > 2 && now - samples[1].time > THROUGHPUT_WINDOW_MS) {
+            samples.shift();
+        }
+
+        const first = samples[0];
+        const elapsed = (now - first.time) / 1000;
+        throughput = elapsed > 0 ? (totalSent - first.bytes) / elapsed : 0;
+    }
+
+    function find(id: number): UploadQueueEntry | undefined {
+        return entries.find((entry) => entry.id === id);
+    }
+
+    /**
+     * Start queued entries until the concurrency limit is reached.
+     */
+    function pump() {
+        let active = entries.filter((entry) => entry.upload.state === 'uploading').length;
+        if (active === 0) {
+            samples = [];
+            throughput = 0;
+        }
+
+        for (const entry of entries) {
+            if (active >= concurrency) break;
+            if (entry.upload.state === 'queued') {
+                active += 1;
+                entry.upload.state = 'uploading';
+                void run(entry);
+            }
+        }
+    }
+
+    /**
+     * Find the saved session to continue for an entry. A session for the
+     * same files is only reused if it rebuilds the exact same archive at the
+     * same destination; otherwise it is discarded.
+     */
+    async function findSession(
+        fingerprint: string,
+        entry: UploadQueueEntry,
+        meta: SampleMeta
+    ): Promise<UploadSession | undefined> {
+        const session = await getUploadSession(fingerprint);
+        if (!session) {
+            return undefined;
+        }
+
+        const matches =
+            session.bucket === entry.bucket &&
+            session.key === entry.key &&
+            (session.archiveDir ?? DEFAULT_ARCHIVE_DIR) === entry.archiveDir &&
+            JSON.stringify(session.meta) === JSON.stringify(meta);
+        if (matches && !isUploadSessionExpired(session)) {
+            return session;
+        }
+
+        await discardUploadSession(options.baseUrl, session);
+        return undefined;
+    }
+
+    async function discardEntrySession(entry: UploadQueueEntry) {
+        try {
+            const session = await getUploadSession(await getFilesFingerprint([...entry.files]));
+            if (session) {
+                await discardUploadSession(options.baseUrl, session);
+            }
+        } catch (err) {
+            console.error('Failed to discard the upload session', err);
+        }
+    }
+
+    /**
+     * Pack and upload one entry, continuing its saved session if there is one.
+     */
+    async function run(entry: UploadQueueEntry) {
+        const controller = new AbortController();
+        entry.upload.controller = controller;
+        entry.error = undefined;
+
+        const meta = $state.snapshot(entry.meta) as SampleMeta;
+        const files = [...entry.files];
+        let saved: UploadSession | undefined;
+
+        // Session writes are best effort: losing one only means a resumed
+        // upload sends a part again.
+        const persist = () => {
+            if (saved) {
+                saveUploadSession(saved).catch((err) => {
+                    console.error('Failed to save the upload session', err);
+                });
+            }
+        };
+
+        try {
+            const fingerprint = await getFilesFingerprint(files);
+            const session = await findSession(fingerprint, entry, meta);
+            saved = session && { ...session, parts: [...session.parts] };
+
+            // Pre-compute the size of the final tar file
+            const size = tarSize(meta, files, entry.archiveDir);
+            entry.upload.bytesSent = 0;
+            entry.upload.totalBytes = size;
+
+            // One part size drives both the chunker and the part URL request
+            const partSize = session?.partSize ?? getPartSize(size);
+            entry.upload.progress = createUploadProgress(size, partSize, Date.now());
+
+            const onProgress: OnProgress = (bytesSent, totalBytes, ctx) => {
+                // Parts skipped on resume were sent earlier, not just now
+                if (ctx.attempt > 0) {
+                    recordBytes(Math.max(0, bytesSent - entry.upload.bytesSent));
+                }
+                entry.upload.bytesSent = bytesSent;
+                entry.upload.totalBytes = totalBytes;
+                if (entry.upload.progress) {
+                    recordSentBytes(entry.upload.progress, bytesSent, ctx, Date.now());
+                }
+            };
+            const onPartStatus: OnPartStatus = (status) => {
+                if (entry.upload.progress) {
+                    recordPartStatus(entry.upload.progress, status, Date.now());
+                }
+            };
+
+            if (controller.signal.aborted) {
+                return;
+            }
+
+            const stream = packChunks(meta, files, partSize, entry.archiveDir);
+            const res = await multiPartUpload(stream, size, {
+                baseUrl: options.baseUrl,
+                bucket: entry.bucket,
+                key: entry.key,
+                partSize,
+                signal: controller.signal,
+                onProgress,
+                onPartStatus,
+                resume: session && { uploadId: session.uploadId, parts: session.parts },
+                keepOnError: true,
+                onUploadCreated: (uploadId) => {
+                    const now = Date.now();
+                    saved = {
+                        id: fingerprint,
+                        uploadId,
+                        bucket: entry.bucket,
+                        key: entry.key,
+                        partSize,
+                        totalBytes: size,
+                        meta,
+                        archiveDir: entry.archiveDir,
+                        parts: [],
+                        createdAt: now,
+                        updatedAt: now
+                    };
+                    persist();
+                },
+                onPartUploaded: (part) => {
+                    saved?.parts.push(part);
+                    persist();
+                }
+            });
+
+            if (res !== undefined) {
+                entry.upload.state = 'complete';
+                entry.upload.checksumVerified = res.checksumVerified;
+                await deleteUploadSession(fingerprint);
+                options.onComplete?.(entry, res);
+            }
+        } catch (err: unknown) {
+            if (!controller.signal.aborted) {
+                entry.upload.state = 'failed';
+                entry.error = err instanceof Error ? err.message : String(err);
+                options.onError?.(entry, err);
+                console.error(err);
+            }
+        } finally {
+            entry.upload.controller = undefined;
+            // A paused entry keeps its session; a canceled one gives it up
+            if (controller.signal.aborted && entry.upload.state === 'canceled' && saved) {
+                await discardUploadSession(options.baseUrl, saved);
+            }
+            pump();
+        }
+    }
+
+    return {
+        get entries() {
+            return entries;
+        },
+        get concurrency() {
+            return concurrency;
+        },
+        set concurrency(value: number) {
+            concurrency = Math.max(1, Math.floor(value) || 1);
+            pump();
+        },
+        get throughput() {
+            return throughput;
+        },
+
+        add(sample: UploadQueueSample) {
+            const archiveDir = sample.archiveDir ?? DEFAULT_ARCHIVE_DIR;
+            entries.push({
+                id: nextId++,
+                meta: sample.meta,
+                files: sample.files,
+                archiveDir,
+                bucket: sample.bucket,
+                key: sample.key,
+                upload: {
+                    state: 'queued',
+                    bytesSent: 0,
+                    totalBytes: tarSize(sample.meta, sample.files, archiveDir)
+                }
+            });
+            // Return the reactive entry, not the object that was pushed
+            const entry = entries[entries.length - 1];
+            pump();
+            return entry;
+        },
+
+        pause(id: number) {
+            const entry = find(id);
+            if (entry?.upload.state === 'queued') {
+                entry.upload.state = 'paused';
+            } else if (entry?.upload.state === 'uploading') {
+                entry.upload.state = 'paused';
+                entry.upload.controller?.abort();
+            }
+        },
+
+        resume(id: number) {
+            const entry = find(id);
+            if (entry?.upload.state === 'paused') {
+                entry.upload.state = 'queued';
+                pump();
+            }
+        },
+
+        cancel(id: number) {
+            const entry = find(id);
+            if (!entry) {
+                return;
+            }
+
+            const { state, controller } = entry.upload;
+            if (state === 'uploading') {
+                entry.upload.state = 'canceled';
+                controller?.abort();
+            } else if (state === 'queued' || state === 'paused' || state === 'failed') {
+                entry.upload.state = 'canceled';
+                void discardEntrySession(entry);
+            }
+        },
+
+        retry(id: number) {
+            const entry = find(id);
+            if (entry?.upload.state === 'failed' || entry?.upload.state === 'canceled') {
+                entry.upload.state = 'queued';
+                pump();
+            }
+        },
+
+        remove(id: number) {
+            const index = entries.findIndex((entry) => entry.id === id);
+            if (index === -1 || entries[index].upload.state === 'uploading') {
+                return;
+            }
+
+            const [entry] = entries.splice(index, 1);
+            if (entry.upload.state !== 'complete' && entry.upload.state !== 'canceled') {
+                void discardEntrySession(entry);
+            }
+        },
+
+        clearCompleted() {
+            for (let i = entries.length - 1; i >= 0; i--) {
+                if (entries[i].upload.state === 'complete') {
+                    entries.splice(i, 1);
+                }
+            }
+        }
+    };
+}
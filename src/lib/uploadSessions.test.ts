@@ -0,0 +1,59 @@
+import { describe, it, expect } from 'vitest';
+import {
+    UPLOAD_SESSION_TTL_MS,
+    getFilesFingerprint,
+    getUploadSession,
+    isUploadSessionExpired
+} from './uploadSessions';
+import type { UploadSession } from './uploadSessions';
+
+function buildSession(overrides: Partial<UploadSession> = {}): UploadSession {
+    return {
+        id: 'fingerprint',
+        uploadId: 'upload-1',
+        bucket: 'example-bucket',
+        key: 'unprocessed/sample-1.tar',
+        partSize: 10,
+        totalBytes: 100,
+        meta: {
+            sampleId: '1',
+            sampleType: 'isolate',
+            sampleMatrix: 'stool',
+            sampleCollectionDate: '2026-01-01T00:00:00.000+00:00'
+        },
+        parts: [],
+        createdAt: 0,
+        updatedAt: 0,
+        ...overrides
+    };
+}
+
+describe('getFilesFingerprint', () => {
+    const r1 = new File(['ACGT'], 'a_R1.fastq.gz', { lastModified: 1 });
+    const r2 = new File(['TTGCA'], 'a_R2.fastq.gz', { lastModified: 2 });
+
+    it('ignores the order in which files were selected', async () => {
+        expect(await getFilesFingerprint([r1, r2])).toBe(await getFilesFingerprint([r2, r1]));
+    });
+
+    it('changes when a file is modified', async () => {
+        const edited = new File(['ACGT'], 'a_R1.fastq.gz', { lastModified: 3 });
+        expect(await getFilesFingerprint([r1, r2])).not.toBe(
+            await getFilesFingerprint([edited, r2])
+        );
+    });
+});
+
+describe('isUploadSessionExpired', () => {
+    it('expires sessions older than the TTL', () => {
+        const session = buildSession({ createdAt: 1_000 });
+        expect(isUploadSessionExpired(session, 1_000 + UPLOAD_SESSION_TTL_MS)).toBe(false);
+        expect(isUploadSessionExpired(session, 1_001 + UPLOAD_SESSION_TTL_MS)).toBe(true);
+    });
+});
+
+describe('session storage without IndexedDB', () => {
+    it('finds no session', async () => {
+        expect(await getUploadSession('fingerprint')).toBeUndefined();
+    });
+});
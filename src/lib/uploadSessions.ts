@@ -0,0 +1,174 @@
+import { abortMultipartUpload } from '$lib/mpu';
+import type { UploadedPart } from '$lib/mpu';
+import type { SampleMeta } from '$lib/stream';
+
+/**
+ * Persistence for in-progress multipart uploads, so a page reload or a network
+ * drop does not throw away the parts that already reached S3.
+ *
+ * A session records everything needed to rebuild the exact same archive and
+ * continue the same multipart upload: the upload id and destination, the part
+ * size, the sample metadata written into `meta.json`, and the ETag of every
+ * completed part. Sessions are keyed by a fingerprint of the source files, so
+ * selecting the same files again finds the session.
+ *
+ * Sessions live in IndexedDB. When IndexedDB is unavailable (e.g. private
+ * browsing or tests) every function degrades to a no-op, and uploads simply
+ * cannot be resumed.
+ */
+export interface UploadSession {
+    /** Fingerprint of the source files, see {@link getFilesFingerprint} */
+    id: string;
+    uploadId: string;
+    bucket: string;
+    key: string;
+    partSize: number;
+    totalBytes: number;
+    meta: SampleMeta;
+    /** The archive directory of the files; sessions saved before upload profiles used `sequencing` */
+    archiveDir?: string;
+    parts: UploadedPart[];
+    createdAt: number;
+    updatedAt: number;
+}
+
+/**
+ * How long a session can be resumed. Parts of an incomplete multipart upload
+ * are eventually cleaned up by the bucket lifecycle rules, so older sessions
+ * are aborted rather than offered for resume.
+ */
+export const UPLOAD_SESSION_TTL_MS = 7 * 24 * 60 * 60 * 1000;
+
+const DB_NAME = 'cape-uploads';
+const DB_VERSION = 1;
+const STORE_NAME = 'sessions';
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+function openDatabase(): Promise<IDBDatabase> | null {
+    if (typeof indexedDB === 'undefined') return null;
+
+    if (!dbPromise) {
+        dbPromise = new Promise<IDBDatabase>((resolve, reject) => {
+            const request = indexedDB.open(DB_NAME, DB_VERSION);
+            request.onupgradeneeded = () => {
+                request.result.createObjectStore(STORE_NAME, { keyPath: 'id' });
+            };
+            request.onsuccess = () => resolve(request.result);
+            request.onerror = () => reject(request.error);
+        }).catch((err) => {
+            // Do not cache failures - allow a retry on the next call.
+            dbPromise = null;
+            throw err;
+        });
+    }
+
+    return dbPromise;
+}
+
+async function withStore<T>(
+    mode: IDBTransactionMode,
+    fn: (store: IDBObjectStore) => IDBRequest<T>
+): Promise<T | undefined> {
+    const db = await openDatabase();
+    if (!db) return undefined;
+
+    return new Promise<T>((resolve, reject) => {
+        const request = fn(db.transaction(STORE_NAME, mode).objectStore(STORE_NAME));
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error);
+    });
+}
+
+/**
+ * Compute a stable fingerprint for a set of source files.
+ *
+ * The fingerprint covers each file's name, size and modification time, and
+ * ignores selection order.
+ *
+ * @param files - the source files
+ * @returns a hex encoded SHA-256 digest
+ */
+export async function getFilesFingerprint(files: File[]): Promise<string> {
+    const description = files
+        .map((f) => `${f.name}:${f.size}:${f.lastModified}`)
+        .sort()
+        .join('\n');
+    const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(description));
+    return Array.from(new Uint8Array(digest), (b) => b.toString(16).padStart(2, '0')).join('');
+}
+
+/**
+ * Check whether a session is too old to be resumed.
+ *
+ * @param session - the upload session
+ * @param now - the current time in milliseconds
+ */
+export function isUploadSessionExpired(session: UploadSession, now = Date.now()): boolean {
+    return now - session.createdAt > UPLOAD_SESSION_TTL_MS;
+}
+
+/**
+ * Read the session for a files fingerprint, or undefined when there is none.
+ */
+export async function getUploadSession(id: string): Promise<UploadSession | undefined> {
+    return withStore<UploadSession | undefined>('readonly', (store) => store.get(id));
+}
+
+/**
+ * Read every stored session.
+ */
+export async function listUploadSessions(): Promise<UploadSession[]> {
+    return (await withStore<UploadSession[]>('readonly', (store) => store.getAll())) ?? [];
+}
+
+/**
+ * Create or replace a session.
+ */
+export async function saveUploadSession(session: UploadSession): Promise<void> {
+    await withStore('readwrite', (store) => store.put({ ...session, updatedAt: Date.now() }));
+}
+
+/**
+ * Remove a session without touching the multipart upload it refers to.
+ */
+export async function deleteUploadSession(id: string): Promise<void> {
+    await withStore('readwrite', (store) => store.delete(id));
+}
+
+/**
+ * Abort the multipart upload behind a session and forget the session.
+ *
+ * The session is removed even if the abort request fails, since the upload
+ * is most likely already gone (completed, aborted or expired).
+ *
+ * @param baseUrl - the API base URL
+ * @param session - the session to discard
+ */
+export async function discardUploadSession(baseUrl: string, session: UploadSession): Promise<void> {
+    try {
+        await abortMultipartUpload(session.uploadId, {
+            baseUrl,
+            bucket: session.bucket,
+            key: session.key
+        });
+    } catch (err) {
+        console.error(`Failed to abort multipart upload ${session.uploadId}`, err);
+    } finally {
+        await deleteUploadSession(session.id);
+    }
+}
+
+/**
+ * Discard every session that is too old to be resumed.
+ *
+ * @param baseUrl - the API base URL
+ */
+export async function pruneExpiredUploadSessions(baseUrl: string): Promise<void> {
+    const now = Date.now();
+    for (const session of await listUploadSessions()) {
+        if (isUploadSessionExpired(session, now)) {
+            await discardUploadSession(baseUrl, session);
+        }
+    }
+}
@@ -5,7 +5,11 @@ vi.mock('$lib/apiClient', () => ({
 }));
 
 import { capi } from '$lib/apiClient';
-import { getMyWorkflowRuns, getPipelineConfigsFromRun } from './workflowStatus';
+import {
+    getMyWorkflowRuns,
+    getPipelineConfigsFromRun,
+    isWorkflowRunFinished
+} from './workflowStatus';
 import type { WorkflowRun } from './workflowStatus';
 
 function buildRun(overrides: Partial<WorkflowRun> = {}): WorkflowRun {
@@ -112,3 +116,12 @@ describe('getPipelineConfigsFromRun', () => {
         expect(configs.map((c) => c.nextflowOptions)).toEqual([{ stage: 1 }, { stage: 2 }]);
     });
 });
+
+describe('isWorkflowRunFinished', () => {
+    it('treats runs Airflow still moves on as unfinished', () => {
+        expect(isWorkflowRunFinished('queued')).toBe(false);
+        expect(isWorkflowRunFinished('running')).toBe(false);
+        expect(isWorkflowRunFinished('success')).toBe(true);
+        expect(isWorkflowRunFinished('failed')).toBe(true);
+    });
+});
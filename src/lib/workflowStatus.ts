@@ -17,6 +17,27 @@ export type WorkflowRunState =
     | 'deferred'
     | 'removed';
 
+/**
+ * Run states from which Airflow still moves a run on by itself
+ */
+const ACTIVE_RUN_STATES: WorkflowRunState[] = [
+    'queued',
+    'running',
+    'up_for_retry',
+    'up_for_reschedule',
+    'restarting',
+    'deferred'
+];
+
+/**
+ * Whether a run has reached a terminal state, e.g. `success` or `failed`
+ *
+ * @param state - the run state
+ */
+export function isWorkflowRunFinished(state: WorkflowRunState): boolean {
+    return !ACTIVE_RUN_STATES.includes(state);
+}
+
 /**
  * Task instance state from Airflow
  */
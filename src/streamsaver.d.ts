@@ -0,0 +1,20 @@
+// streamsaver ships without type declarations; only the API in use is typed
+declare module 'streamsaver' {
+    interface CreateWriteStreamOptions {
+        /** The final size in bytes, so the browser can show the download progress */
+        size?: number;
+        writableStrategy?: QueuingStrategy<Uint8Array>;
+        readableStrategy?: QueuingStrategy<Uint8Array>;
+    }
+
+    const streamSaver: {
+        createWriteStream(
+            filename: string,
+            options?: CreateWriteStreamOptions
+        ): WritableStream<Uint8Array>;
+        /** The man-in-the-middle page that registers the download service worker */
+        mitm: string;
+        supported: boolean;
+    };
+    export default streamSaver;
+}
@@ -0,0 +1,33 @@
+import { svelte } from '@sveltejs/vite-plugin-svelte';
+import { fileURLToPath } from 'node:url';
+import { defineConfig } from 'vite';
+
+const src = (path: string) => fileURLToPath(new URL(`./src/${path}`, import.meta.url));
+
+/**
+ * Builds the `cape` command line (`src/cli`) into a Node script. SvelteKit is
+ * not involved, so `$lib` is aliased here, and the Svelte plugin compiles the
+ * rune modules (`*.svelte.ts`) the library uses. The browser sign-in is
+ * replaced, since the CLI gets its token from the environment.
+ */
+export default defineConfig({
+    plugins: [svelte()],
+    resolve: {
+        // The first matching alias wins
+        alias: [
+            { find: '$lib/cognito', replacement: src('cli/cognito.ts') },
+            { find: '$lib', replacement: src('lib') }
+        ]
+    },
+    ssr: {
+        // Bundled so `ajv/dist/vocabularies/next` gets the CommonJS interop
+        // Node's own ESM loader lacks (its default import is the whole module)
+        noExternal: ['ajv']
+    },
+    build: {
+        ssr: src('cli/cape.ts'),
+        outDir: 'dist/cli',
+        target: 'node20',
+        emptyOutDir: true
+    }
+});
@@ -15,4 +15,16 @@ Object.defineProperty(window, 'matchMedia', {
     }))
 });
 
+// jsdom's Blob has no text(), used to read files picked by the user
+if (!Blob.prototype.text) {
+    Blob.prototype.text = function (this: Blob) {
+        return new Promise<string>((resolve, reject) => {
+            const reader = new FileReader();
+            reader.onload = () => resolve(reader.result as string);
+            reader.onerror = () => reject(reader.error);
+            reader.readAsText(this);
+        });
+    };
+}
+
 // add more mocks here if you need them